@@ -0,0 +1,18 @@
+/**
+ * A typed ECS component key.
+ * @remarks
+ * Like a service token, the `key` symbol identifies the component; `T` is the
+ * type of the value stored per entity (`__value` only exists for type inference).
+ */
+export type ComponentType<T> = { readonly key: unique symbol; readonly name: string; readonly __value?: T }
+
+/**
+ * Defines a new component type.
+ * @remarks
+ * Define each component once, in a module shared by everything that reads it;
+ * two calls with the same name create two unrelated components.
+ * @param name - A description for the component, useful for debugging.
+ * @returns A new component type.
+ */
+export const defineComponent = <T>(name: string): ComponentType<T> =>
+  ({ key: Symbol(name), name }) as ComponentType<T>
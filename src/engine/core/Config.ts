@@ -0,0 +1,53 @@
+/** A single configurable value; scalars only, so every layer (JSON, URL, storage) can express it. */
+export type ConfigValue = number | boolean | string
+
+/** Field name → value of one config section. */
+export type ConfigShape = { [field: string]: ConfigValue }
+
+/**
+ * Optional constraints for one field, checked for every value that doesn't come from code.
+ */
+export type ConfigField<V extends ConfigValue> = {
+  /** Shown in the config debug panel. */
+  description?: string
+  /** Smallest accepted number. */
+  min?: number
+  /** Largest accepted number. */
+  max?: number
+  /** Accepted values. */
+  options?: readonly V[]
+}
+
+/**
+ * A typed config section key.
+ * @remarks
+ * `name` is what config files and overrides use (`{ "debug/overlay": { "hotkey": "F1" } }`,
+ * `?debug/overlay.hotkey=F1`); `defaults` fixes the type of every field.
+ */
+export type ConfigSection<T extends ConfigShape> = {
+  readonly key: unique symbol
+  readonly name: string
+  readonly defaults: Readonly<T>
+  readonly fields: { readonly [K in keyof T]?: ConfigField<T[K]> }
+}
+
+/** `T` with literal field types widened (`false` → `boolean`), as inferred from defaults. */
+type Widen<T extends ConfigShape> = {
+  [K in keyof T]: T[K] extends boolean ? boolean : T[K] extends number ? number : string
+}
+
+/**
+ * Defines a config section.
+ * @remarks
+ * Define each section once, next to the module it configures; name it after the module id.
+ * @param name - Section name used by config files, URL parameters and overrides.
+ * @param defaults - Value of every field when nothing overrides it.
+ * @param fields - Optional constraints per field.
+ * @returns A new config section.
+ */
+export const defineConfig = <T extends ConfigShape>(
+  name: string,
+  defaults: T,
+  fields: { [K in keyof T]?: ConfigField<Widen<T>[K]> } = {}
+): ConfigSection<Widen<T>> =>
+  ({ key: Symbol(name), name, defaults, fields }) as unknown as ConfigSection<Widen<T>>
@@ -0,0 +1,85 @@
+import type { FrameDriver } from './Types'
+
+/**
+ * Default browser driver backed by `requestAnimationFrame` and `performance.now()`.
+ * @returns A frame driver that schedules one frame per display refresh.
+ */
+export function createRafDriver(): FrameDriver {
+  let handle: number | undefined
+
+  return {
+    now: () => performance.now(),
+    request(frame) {
+      handle = requestAnimationFrame(frame)
+    },
+    cancel() {
+      if (handle !== undefined) cancelAnimationFrame(handle)
+      handle = undefined
+    },
+  }
+}
+
+/**
+ * Timer driver backed by `setInterval`.
+ *
+ * @remarks
+ * Works anywhere timers exist (Node, workers, servers). Frames are delivered at
+ * roughly `hz` per second; the engine still measures real elapsed time, so the
+ * fixed-step loop stays correct if the timer drifts.
+ *
+ * @param hz - Frames per second to schedule (default `60`).
+ * @returns A frame driver that ticks on an interval timer.
+ */
+export function createIntervalDriver(hz = 60): FrameDriver {
+  let timer: ReturnType<typeof setInterval> | undefined
+  let pending: ((t: number) => void) | undefined
+  const now = () => performance.now()
+
+  return {
+    now,
+    request(frame) {
+      pending = frame
+      if (timer !== undefined) return
+      timer = setInterval(() => {
+        const f = pending
+        pending = undefined
+        f?.(now())
+      }, 1000 / hz)
+    },
+    cancel() {
+      if (timer !== undefined) clearInterval(timer)
+      timer = undefined
+      pending = undefined
+    },
+  }
+}
+
+/**
+ * Driver that never schedules frames on its own.
+ *
+ * @remarks
+ * Use for headless runs (tests, CI, servers) and drive the engine explicitly with
+ * {@link Engine.tick} or {@link Engine.stepFixed}. The clock is virtual: it starts
+ * at `0` and only moves when the engine is ticked, so `time.now()` is reproducible.
+ *
+ * @example
+ * ```ts
+ * const engine = new Engine({ width: 800, height: 600, driver: createManualDriver() })
+ *   .add(Physics2D())
+ * await engine.init()
+ * await engine.start()
+ * for (let i = 0; i < 60; i++) engine.tick(1000 / 60)
+ * ```
+ *
+ * @returns A manually advanced frame driver.
+ */
+export function createManualDriver(): FrameDriver {
+  let t = 0
+
+  return {
+    now: () => t,
+    request() {},
+    cancel() {},
+    advance(ms) { t += ms },
+  }
+}
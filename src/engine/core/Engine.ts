@@ -1,6 +1,20 @@
 import { createEventBus } from './EventBus'
-import { createServices } from './Services'
-import type { EngineConfig, Module, GameContext } from './Types'
+import { createServices, createTime } from './Services'
+import { createRafDriver } from './Driver'
+import { createRng } from './Rng'
+import { createScope, scopeContext } from './Scope'
+import { sortModules } from './ModuleGraph'
+import { LOGGER, PROFILER, SIMULATION } from './tokens'
+import type {
+  EngineConfig, EngineSnapshot, Module, GameContext, FrameDriver, FaultPolicy, ModuleHook, UpdatePhase,
+  RenderPhase,
+} from './Types'
+
+/** Fixed-step phases in execution order. */
+const UPDATE_PHASES: readonly UpdatePhase[] = ['preUpdate', 'update', 'postUpdate', 'lateUpdate']
+
+/** Render phases in execution order. */
+const RENDER_PHASES: readonly RenderPhase[] = ['render', 'postRender']
 
 /**
  * Core game engine.
@@ -18,42 +32,114 @@ import type { EngineConfig, Module, GameContext } from './Types'
  * await engine.init();
  * await engine.start();
  * ```
+ *
+ * @example Headless (tests, CI, servers)
+ * ```ts
+ * const engine = new Engine({ width: 800, height: 600, driver: createManualDriver() })
+ *   .add(Physics2D())
+ *   .add(MyGameplay());
+ * await engine.init();
+ * await engine.start();
+ * engine.stepFixed(120); // two simulated seconds at 60 Hz
+ * ```
+ *
+ * @remarks
+ * Every module hook runs inside an error boundary: a throwing module is disabled
+ * (or restarted, or the engine halted, see {@link FaultPolicy}) and reported as
+ * `engine/moduleError`, while the remaining modules keep running.
  */
 export class Engine {
-  /** Registered modules in call order for update/render. */
+  /** Registered modules; dependency-sorted by {@link Engine.init}. */
   private modules: Module[] = []
 
-  /** Shared context passed to all module hooks. */
+  /** Engine-wide context; each module receives a scoped view of it. */
   private ctx: GameContext
 
+  /** Scoped context of each module, created on first use and disposed with the module. */
+  private contexts = new Map<Module, GameContext>()
+
+  /** Ids of modules skipped by update/render/onEvent. */
+  private disabled = new Set<string>()
+
+  /** Set once {@link Engine.init} has run. */
+  private initialized = false
+
+  /** Set once {@link Engine.start} has run (until {@link Engine.stop}). */
+  private started = false
+
   /** Engine loop running flag. */
   private running = false
 
-  /** Timestamp of previous frame (ms, from performance.now). */
+  /** Timestamp of previous frame (ms, from the driver clock). */
   private last = 0
 
+  /** Clock and frame scheduler driving the loop. */
+  private driver: FrameDriver
+
+  /** Maximum fixed steps per frame before dropping time. */
+  private maxSubsteps: number
+
+  /** Maximum accepted frame delta (ms). */
+  private maxFrameMs: number
+
+  /** True when the engine paused itself because the page was hidden. */
+  private autoPaused = false
+
+  /** Set when a module fault halted the loop. */
+  private halted = false
+
+  /** Ids of modules disabled by a fault and not yet recovered. */
+  private faulted = new Set<string>()
+
+  /** Restart attempts per module id. */
+  private restarts = new Map<string, number>()
+
+  /** Set while a fixed step's phases are running. */
+  private stepping = false
+
+  /** Set while {@link Engine.resimulate} runs. */
+  private resimulating = false
+
+  /** Callbacks run before every fixed step (see {@link SimulationPort.onBeforeStep}). */
+  private beforeStep = new Set<(tick: number) => void>()
+
   /**
    * Create a new engine instance.
    *
-   * @param config - Canvas size, target FPS, and mounting options.
+   * @param config - Canvas size, target FPS, mounting and driver options.
    */
   constructor(config: EngineConfig) {
-    const bus = createEventBus()
-    const services = createServices()
-    this.ctx = { config, bus, services }
-
-    // Broadcast bus events to all modules via onEvent()
-    const origEmit = bus.emit.bind(bus)
-    bus.emit = (e) => {
-      origEmit(e);
+    this.driver = config.driver ?? createRafDriver()
+    this.maxSubsteps = Math.max(1, config.maxSubsteps ?? 5)
+    this.maxFrameMs = Math.max(0, config.maxFrameMs ?? 250)
+    const bus = createEventBus((error, ev) => {
+      this.logError(`Error in handler of ${ev.type}`, { event: ev.type, error })
+    })
+    const time = createTime(1 / (config.targetFPS ?? 60), this.driver.now, (paused) => {
+      bus.emit({ type: paused ? 'time/paused' : 'time/resumed' })
+    })
+    const services = createServices(time, createRng(config.seed))
+    this.ctx = { config, bus, services, scope: createScope('engine') }
+
+    const engine = this
+    services.set(SIMULATION, {
+      snapshot: () => this.snapshot(),
+      restore: (snap) => this.restore(snap),
+      resimulate: (n) => this.resimulate(n),
+      get resimulating() { return engine.resimulating },
+      onBeforeStep: (fn) => {
+        this.beforeStep.add(fn)
+        return () => { this.beforeStep.delete(fn) }
+      },
+    })
+
+    // Broadcast bus events to all modules via onEvent(), after regular subscribers
+    bus.on('*', (e) => {
       for (const m of this.modules) {
-        try {
-          m.onEvent?.(this.ctx, e)
-        } catch (err) {
-          console.error(`Error in module ${m.id} handling event`, e, err)
-        }
+        if (this.disabled.has(m.id) || !m.onEvent) continue
+        this.guard(m, 'onEvent', () => m.onEvent!(this.contextOf(m), e))
       }
-    }
+    }, { priority: -Infinity })
   }
 
   /**
@@ -61,27 +147,150 @@ export class Engine {
    *
    * @remarks
    * Modules should have no cross-imports; they should communicate via the event bus
-   * and services. Order can matter if modules rely on earlier services being registered
-   * during {@link Module.init | init()}.
+   * and services. Declare {@link Module.provides} / {@link Module.requires} so the
+   * engine can order modules itself; undeclared modules keep their `add()` order.
    *
    * @param module - The module to register.
    * @returns The engine (for chaining).
+   * @throws {Error} If a module with the same id was already added, or the engine
+   * is already initialized (use {@link Engine.attach} instead).
    */
   add(module: Module) {
+    if (this.initialized) {
+      throw new Error(`Cannot add "${module.id}" after init(); use engine.attach() instead`)
+    }
+    this.assertUniqueId(module)
     this.modules.push(module)
     return this
   }
 
+  /**
+   * Add a module to an initialized or running engine.
+   *
+   * @remarks
+   * Runs the module's `init()` and, if the engine has started, `start()`, then
+   * inserts it into the loop in dependency order and emits `engine/moduleAdded`.
+   * The module receives no update/render calls until both hooks have completed.
+   * If a hook throws, the module is still added but stays disabled (unless its
+   * fault policy restarts it successfully).
+   * Before {@link Engine.init}, this is equivalent to {@link Engine.add}.
+   *
+   * @param module - The module to attach.
+   * @throws {Error} If the id is taken or its requirements cannot be satisfied,
+   * or a hook throws under the `"halt"` policy.
+   */
+  async attach(module: Module) {
+    if (!this.initialized) {
+      this.add(module)
+      return
+    }
+    this.assertUniqueId(module)
+    // Validate dependencies before running any hook
+    sortModules([...this.modules, module], this.ctx.services)
+
+    const ctx = this.contextOf(module)
+    if (await this.runHook(module, 'init', () => module.init?.(ctx)) && this.started) {
+      await this.runHook(module, 'start', () => module.start?.(ctx))
+    }
+
+    this.modules = sortModules([...this.modules, module], this.ctx.services)
+    this.ctx.bus.emit({ type: 'engine/moduleAdded', id: module.id })
+  }
+
+  /**
+   * Destroy a module and remove it from the engine.
+   *
+   * @remarks
+   * Calls the module's {@link Module.destroy | destroy()}, disposes its {@link Scope}
+   * (bus subscriptions, services, DOM listeners, timers), unregisters the services
+   * it declares in {@link Module.provides}, and emits `engine/moduleRemoved`.
+   *
+   * @param id - Id of the module to remove.
+   * @returns `true` if a module was removed, `false` if no module has that id.
+   * @throws {Error} If another module still requires a service this module provides.
+   */
+  remove(id: string) {
+    const module = this.modules.find(m => m.id === id)
+    if (!module) return false
+
+    const provided = new Set((module.provides ?? []).map(t => t.key))
+    const dependent = this.modules.find(m =>
+      m !== module && (m.requires ?? []).some(t => provided.has(t.key))
+    )
+    if (dependent) {
+      throw new Error(`Cannot remove "${id}": module "${dependent.id}" requires its services`)
+    }
+
+    this.modules = this.modules.filter(m => m !== module)
+    this.guard(module, 'destroy', () => module.destroy?.())
+    this.disposeContext(module)
+    this.disabled.delete(id)
+    this.faulted.delete(id)
+    for (const t of module.provides ?? []) this.ctx.services.delete(t)
+    this.ctx.bus.emit({ type: 'engine/moduleRemoved', id })
+    return true
+  }
+
+  /**
+   * Resume update/render/event callbacks for a disabled module.
+   *
+   * @remarks
+   * Also clears a fault; the module's state is whatever it was when its hook threw.
+   *
+   * @param id - Module id.
+   * @returns `true` if the module was disabled and is now enabled.
+   */
+  enable(id: string) {
+    this.faulted.delete(id)
+    if (!this.disabled.delete(id)) return false
+    this.ctx.bus.emit({ type: 'engine/moduleEnabled', id })
+    return true
+  }
+
+  /**
+   * Suspend a module without destroying it.
+   *
+   * @remarks
+   * A disabled module keeps its state and services but is skipped by the
+   * update, render and `onEvent` dispatch until {@link Engine.enable} is called.
+   * Direct `ctx.bus.on` subscriptions are not affected.
+   *
+   * @param id - Module id.
+   * @returns `true` if the module exists and was enabled.
+   */
+  disable(id: string) {
+    if (!this.modules.some(m => m.id === id) || this.disabled.has(id)) return false
+    this.disabled.add(id)
+    this.ctx.bus.emit({ type: 'engine/moduleDisabled', id })
+    return true
+  }
+
+  /**
+   * Whether a module with this id is registered and enabled.
+   * @param id - Module id.
+   */
+  isEnabled(id: string) {
+    return this.modules.some(m => m.id === id) && !this.disabled.has(id)
+  }
+
   /**
    * Initialize all modules.
    *
    * @remarks
    * Called once before {@link Engine.start}. Use this to register services
    * and subscribe to events. Avoid heavy asset loading here.
+   *
+   * A module whose `init()` throws is handled by its {@link FaultPolicy}; the
+   * others are still initialized.
+   *
+   * @throws {Error} If module dependencies are missing or cyclic (before any module is initialized),
+   * or an `init()` throws under the `"halt"` policy.
    */
   async init() {
+    this.modules = sortModules(this.modules, this.ctx.services)
+    this.initialized = true
     for (const m of this.modules) {
-      await m.init?.(this.ctx)
+      await this.runHook(m, 'init', () => m.init?.(this.contextOf(m)))
     }
   }
 
@@ -90,7 +299,12 @@ export class Engine {
    *
    * @remarks
    * Calls each module's {@link Module.start | start()} first (good place to load assets),
-   * then begins the fixed-step update loop with a render pass.
+   * then begins the fixed-step update loop with a render pass. Frames are scheduled
+   * by the configured {@link FrameDriver}; with a manual driver nothing is scheduled
+   * and the loop advances only through {@link Engine.tick} / {@link Engine.stepFixed}.
+   * Modules that faulted during `init()` are not started.
+   *
+   * @throws {Error} If a `start()` throws under the `"halt"` policy.
    *
    * @example
    * ```ts
@@ -99,51 +313,413 @@ export class Engine {
    * ```
    */
   async start() {
+    this.started = true
+    this.halted = false
     for (const m of this.modules) {
-      await m.start?.(this.ctx)
+      if (this.faulted.has(m.id)) continue
+      await this.runHook(m, 'start', () => m.start?.(this.contextOf(m)))
     }
+    if (this.halted) return
     this.running = true
-    this.last = performance.now()
-    requestAnimationFrame(this.frame)
+    this.last = this.driver.now()
+    if (this.ctx.config.pauseOnHidden !== false && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.onVisibilityChange)
+    }
+    this.driver.request(this.frame)
+  }
+
+  /**
+   * Advance the engine by `ms` of real time, as if one frame had elapsed.
+   *
+   * @remarks
+   * Runs as many fixed-step updates as the accumulated time allows, then a render
+   * pass. Independent of the driver, so it can be used to drive a headless engine.
+   *
+   * @param ms - Elapsed time in milliseconds.
+   */
+  tick(ms: number) {
+    this.driver.advance?.(ms)
+    this.advance(ms)
+  }
+
+  /**
+   * Run exactly `n` fixed-step updates, bypassing the accumulator.
+   *
+   * @remarks
+   * No render pass is performed and {@link TimeService.paused} is ignored.
+   * Useful for deterministic tests. To single-step a running game, prefer
+   * `time.stepOnce()` so the step happens inside the normal frame.
+   *
+   * @param n - Number of fixed steps to run (default `1`).
+   */
+  stepFixed(n = 1) {
+    const time = this.ctx.services.time
+    for (let i = 0; i < n; i++) this.fixedUpdate(time.fixedStep)
+  }
+
+  /**
+   * Capture the simulation state: clock, RNG and every module implementing `snapshot()`.
+   *
+   * @remarks
+   * Call between fixed steps. Disabled modules are captured too, so re-enabling
+   * one after a restore doesn't resurrect stale state.
+   *
+   * @returns A snapshot for {@link Engine.restore}.
+   */
+  snapshot(): EngineSnapshot {
+    const { time, rng } = this.ctx.services
+    const modules: Record<string, unknown> = {}
+    for (const m of this.modules) {
+      if (!m.snapshot) continue
+      this.guard(m, 'snapshot', () => { modules[m.id] = m.snapshot!(this.contextOf(m)) })
+    }
+    return { tick: time.tick, simTime: time.simTime, rng: rng.getState(), modules }
+  }
+
+  /**
+   * Return the simulation to a state captured by {@link Engine.snapshot}.
+   *
+   * @remarks
+   * Modules missing from the snapshot (added later, or without `snapshot()`) keep
+   * their current state. The accumulator and real time are not touched.
+   *
+   * @param snapshot - State to restore.
+   * @throws {Error} If called while a fixed step is running.
+   */
+  restore(snapshot: EngineSnapshot) {
+    this.assertBetweenSteps('restore')
+    const { time, rng } = this.ctx.services
+    time.tick = snapshot.tick
+    time.simTime = snapshot.simTime
+    rng.setState(snapshot.rng)
+    for (const m of this.modules) {
+      if (!m.restore || !(m.id in snapshot.modules)) continue
+      this.guard(m, 'restore', () => m.restore!(this.contextOf(m), snapshot.modules[m.id]))
+    }
+  }
+
+  /**
+   * Run `n` fixed steps right away as a re-simulation (e.g. after a rollback).
+   *
+   * @remarks
+   * Like {@link Engine.stepFixed}, but `SIMULATION.resimulating` is `true` meanwhile
+   * so presentation code can skip one-off effects.
+   *
+   * @param n - Number of fixed steps to run.
+   * @throws {Error} If called while a fixed step is running.
+   */
+  resimulate(n: number) {
+    this.assertBetweenSteps('resimulate')
+    const outer = this.resimulating
+    this.resimulating = true
+    try {
+      this.stepFixed(n)
+    } finally {
+      this.resimulating = outer
+    }
   }
 
   /**
    * Per-frame callback (internal).
-   * @param t - Current timestamp from rAF.
+   * @param t - Current timestamp from the driver.
    * @internal
    */
   private frame = (t: number) => {
     if (!this.running) return
-    const time = this.ctx.services.time
     const dtMs = t - this.last; this.last = t
-    time.accumulator += dtMs / 1000
+    this.advance(dtMs)
+    if (this.running) this.driver.request(this.frame)
+  }
+
+  /**
+   * Pause while the page is hidden; resume only if we paused it (internal).
+   * @internal
+   */
+  private onVisibilityChange = () => {
+    const time = this.ctx.services.time
+    if (document.hidden) {
+      if (!time.paused) {
+        this.autoPaused = true
+        time.paused = true
+      }
+    } else {
+      // Don't count the hidden period as a frame delta
+      this.last = this.driver.now()
+      if (this.autoPaused) {
+        this.autoPaused = false
+        time.paused = false
+      }
+    }
+  }
+
+  /**
+   * Run one frame, timing it when a {@link PROFILER} service is registered (internal).
+   * @internal
+   */
+  private advance(dtMs: number) {
+    const prof = this.profiler()
+    if (!prof) {
+      this.runFrame(dtMs)
+      return
+    }
+    prof.beginFrame()
+    const updates = prof.measure('frame', () => this.runFrame(dtMs))
+    prof.record('frame:updates', updates)
+    prof.endFrame()
+  }
+
+  /**
+   * Accumulate `dtMs` of real time, run pending fixed steps and render (internal).
+   *
+   * @remarks
+   * Real time always advances; sim time only advances while not paused, scaled by
+   * `time.scale`. Steps requested via `time.stepOnce()` run even while paused.
+   * The delta is clamped to `maxFrameMs` and at most `maxSubsteps` updates run;
+   * any time that could not be simulated is dropped and reported as `time/overrun`.
+   * @returns Number of fixed updates run.
+   * @internal
+   */
+  private runFrame(dtMs: number) {
+    const time = this.ctx.services.time
+    const clampedMs = Math.min(Math.max(0, dtMs), this.maxFrameMs)
+    const dt = clampedMs / 1000
+    const scale = time.paused ? 0 : Math.max(0, time.scale)
+    time.realTime += dt
+    time.accumulator += dt * scale
+    // Only time cut by the cap counts as dropped; a negative delta drops nothing
+    let droppedMs = Math.max(0, dtMs - clampedMs) * scale
 
-    // Fixed-step updates
-    while (time.accumulator >= time.fixedStep) {
-      for (const m of this.modules) m.update?.(this.ctx, time.fixedStep)
+    // Fixed-step updates, bounded per frame
+    let steps = 0
+    while (time.accumulator >= time.fixedStep && steps < this.maxSubsteps && !this.halted) {
+      this.fixedUpdate(time.fixedStep)
       time.accumulator -= time.fixedStep
+      steps++
+    }
+    if (time.accumulator >= time.fixedStep) {
+      const keep = time.accumulator % time.fixedStep
+      droppedMs += (time.accumulator - keep) * 1000
+      time.accumulator = keep
+    }
+    if (droppedMs > 0) {
+      this.ctx.bus.emit({ type: 'time/overrun', droppedMs, steps })
+    }
+
+    // Explicit single steps (frame-by-frame debugging)
+    while (time.pendingSteps > 0 && !this.halted) {
+      time.pendingSteps--
+      this.fixedUpdate(time.fixedStep)
+      steps++
     }
 
+    // Anything posted outside the fixed step (e.g. from DOM handlers) is handled before render
+    this.ctx.bus.flush()
+
     const alpha = time.accumulator / time.fixedStep
-    for (const m of this.modules) m.render?.(this.ctx, alpha)
+    const prof = this.profiler()
+    for (const phase of RENDER_PHASES) {
+      for (const m of this.modules) {
+        if (this.disabled.has(m.id) || !m[phase]) continue
+        const ctx = this.contextOf(m)
+        const run = () => m[phase]!(ctx, alpha)
+        this.guard(m, phase, prof ? () => prof.measure(`${phase}:${m.id}`, run) : run)
+      }
+    }
+    return steps
+  }
 
-    requestAnimationFrame(this.frame)
+  /**
+   * Run one fixed step across all modules (internal).
+   *
+   * @remarks
+   * Runs each {@link UpdatePhase} across all modules before starting the next.
+   * Events posted to the bus during a phase (e.g. physics contacts) are flushed
+   * once every module has run it, so they are handled in a deterministic order.
+   * Does nothing once a fault has halted the engine.
+   * @internal
+   */
+  private fixedUpdate(dt: number) {
+    if (this.halted) return
+    const time = this.ctx.services.time
+    for (const fn of [...this.beforeStep]) fn(time.tick)
+    const prof = this.profiler()
+    this.stepping = true
+    try {
+      for (const phase of UPDATE_PHASES) {
+        for (const m of this.modules) {
+          if (this.disabled.has(m.id) || !m[phase]) continue
+          const ctx = this.contextOf(m)
+          const run = () => m[phase]!(ctx, dt)
+          this.guard(m, phase, prof ? () => prof.measure(`${phase}:${m.id}`, run) : run)
+          if (this.halted) return
+        }
+        this.ctx.bus.flush()
+      }
+    } finally {
+      this.stepping = false
+    }
+    time.simTime += dt
+    time.tick++
   }
 
   /**
    * Stop the engine and dispose all modules.
    *
    * @remarks
-   * Calls each module's {@link Module.destroy | destroy()} if present.
+   * Calls each module's {@link Module.destroy | destroy()} if present, then disposes
+   * its {@link Scope}; a throwing `destroy()` is reported but does not prevent the
+   * others from running. Finally disposes the engine's own `context.scope`.
    */
   stop() {
     this.running = false
-    this.modules.forEach(m => m.destroy?.())
+    this.started = false
+    this.driver.cancel()
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.onVisibilityChange)
+    }
+    this.modules.forEach(m => {
+      this.guard(m, 'destroy', () => m.destroy?.())
+      this.disposeContext(m)
+    })
+    this.ctx.scope.dispose()
+  }
+
+  /** The module's scoped context, created on first use (internal). */
+  private contextOf(m: Module) {
+    let ctx = this.contexts.get(m)
+    if (!ctx) {
+      ctx = scopeContext(this.ctx, m.id)
+      this.contexts.set(m, ctx)
+    }
+    return ctx
+  }
+
+  /** Release everything the module's context tracked (internal). */
+  private disposeContext(m: Module) {
+    this.contexts.get(m)?.scope.dispose()
+    this.contexts.delete(m)
+  }
+
+  /** The registered profiler, if any and enabled (internal). */
+  private profiler() {
+    const prof = this.ctx.services.get(PROFILER)
+    return prof?.enabled ? prof : undefined
+  }
+
+  /**
+   * Report an error on the `engine` channel of the {@link LOGGER}, or the console without one (internal).
+   * @internal
+   */
+  private logError(message: string, fields: { error: unknown } & Record<string, unknown>) {
+    const log = this.ctx.services.get(LOGGER)
+    if (log) log.channel('engine').error(message, fields)
+    else console.error(message, fields.error)
+  }
+
+  /**
+   * Run a synchronous hook inside the module's error boundary (internal).
+   * @internal
+   */
+  private guard(m: Module, hook: ModuleHook, fn: () => void) {
+    try {
+      fn()
+    } catch (err) {
+      if (this.fault(m, hook, err) === 'restart') void this.restart(m)
+    }
+  }
+
+  /**
+   * Run a possibly async hook inside the module's error boundary (internal).
+   * @returns `true` if the hook completed (or the module was restarted successfully).
+   * @throws The hook's error under the `"halt"` policy.
+   * @internal
+   */
+  private async runHook(m: Module, hook: ModuleHook, fn: () => unknown): Promise<boolean> {
+    try {
+      await fn()
+      return true
+    } catch (err) {
+      const policy = this.fault(m, hook, err)
+      if (policy === 'halt') throw err
+      return policy === 'restart' ? this.restart(m) : false
+    }
+  }
+
+  /**
+   * Disable a failed module, apply its fault policy and report it (internal).
+   * @returns The policy that was applied.
+   * @internal
+   */
+  private fault(m: Module, hook: ModuleHook, error: unknown): FaultPolicy {
+    let policy: FaultPolicy = m.faultPolicy ?? this.ctx.config.faultPolicy ?? 'disable'
+    if (hook === 'destroy') policy = 'disable'
+    if (policy === 'restart') {
+      const attempts = this.restarts.get(m.id) ?? 0
+      if (attempts >= (this.ctx.config.maxRestarts ?? 3)) policy = 'disable'
+      else this.restarts.set(m.id, attempts + 1)
+    }
+
+    this.logError(`Error in module ${m.id} (${hook}), policy: ${policy}`, { module: m.id, hook, policy, error })
+    this.disabled.add(m.id)
+    this.faulted.add(m.id)
+    if (policy === 'halt') this.halt()
+
+    const message = error instanceof Error ? error.message : String(error)
+    const stack = error instanceof Error ? error.stack : undefined
+    this.ctx.bus.emit({ type: 'engine/moduleError', id: m.id, hook, policy, message, stack, error })
+    return policy
+  }
+
+  /**
+   * Destroy and re-initialize a faulted module, re-enabling it on success (internal).
+   * @internal
+   */
+  private async restart(m: Module): Promise<boolean> {
+    try {
+      m.destroy?.()
+    } catch (err) {
+      this.logError(`Error in module ${m.id} (destroy) during restart`, { module: m.id, hook: 'destroy', error: err })
+    }
+    this.disposeContext(m)
+    const ctx = this.contextOf(m)
+    if (!await this.runHook(m, 'init', () => m.init?.(ctx))) return false
+    if (this.started && !await this.runHook(m, 'start', () => m.start?.(ctx))) return false
+    this.enable(m.id)
+    return true
+  }
+
+  /**
+   * Stop scheduling frames and fixed updates after a fatal fault (internal).
+   *
+   * @remarks
+   * Unlike {@link Engine.stop}, modules are not destroyed so their state can be inspected.
+   * @internal
+   */
+  private halt() {
+    this.halted = true
+    this.running = false
+    this.driver.cancel()
+  }
+
+  /** Throw if a fixed step is running (internal). */
+  private assertBetweenSteps(what: string) {
+    if (this.stepping) throw new Error(`Engine: cannot ${what} while a fixed step is running`)
+  }
+
+  /** Throw if a module with the same id is already registered (internal). */
+  private assertUniqueId(module: Module) {
+    if (this.modules.some(m => m.id === module.id)) {
+      throw new Error(`A module with id "${module.id}" is already added`)
+    }
   }
 
   /**
    * The live game context (config, event bus, services).
    *
+   * @remarks
+   * This is the engine-wide context: unlike the ones modules receive, its bus and
+   * services are not scoped, and its `scope` is disposed by {@link Engine.stop}.
+   *
    * @readonly
    */
   get context(): GameContext { return this.ctx }
@@ -1,14 +1,34 @@
-import type { EventBus, GameEvent } from './Types'
+import type { EventBus, EventPattern, GameEvent, SubscribeOptions } from './Types'
+
+/** Default request timeout (ms) when `timeoutMs` is not given. */
+const REQUEST_TIMEOUT_MS = 5000
+
+/** A stored subscription. */
+type Entry = {
+  handler: (e: GameEvent) => void
+  priority: number
+  /** Subscription order, for stable ordering among equal priorities. */
+  seq: number
+  once: boolean
+}
 
 /**
  * Create a new, type-safe {@link EventBus}.
  *
  * @remarks
- * - Stores handlers in a `Map` keyed by event `type`.
- * - Ensures handlers are strongly typed by discriminated union narrowing.
- * - Emits events using a snapshot of the current handlers, so modifications
+ * - Stores handlers in a `Map` keyed by event `type` or pattern (`"input/*"`, `"*"`).
+ * - Ensures handlers are strongly typed by discriminated union narrowing over
+ *   {@link GameEventMap}, including events modules add via declaration merging.
+ * - Emits events using a snapshot of the matching handlers, so modifications
  *   (subscribe/unsubscribe) during an `emit` do not affect the current dispatch.
+ * - Handlers run by descending priority, then subscription order.
+ * - `post` queues events; `flush` dispatches them in order. The engine flushes after each
+ *   update phase of a fixed step and once more before render.
+ * - A handler that throws is reported to `onError` (the console when absent) and the
+ *   remaining handlers still run, so one bad listener can't drop an event or a flush.
  * - Unsubscribe functions automatically clean up empty handler sets.
+ * - `handle` registers the single responder of a request type; `request` calls it and
+ *   returns its answer as a promise, with a timeout for async answers.
  *
  * @example
  * ```ts
@@ -19,74 +39,213 @@ import type { EventBus, GameEvent } from './Types'
  *   console.log('Key pressed:', e.key)
  * })
  *
+ * // Every input event, before normal handlers
+ * bus.on('input/*', e => console.log(e.type), { priority: 10 })
+ *
  * // Emit an event
  * bus.emit({ type: 'input/keydown', key: 'ArrowLeft' })
  *
+ * // Deferred: handled at the next flush()
+ * bus.post({ type: 'level/loaded', name: 'L1' })
+ * bus.flush()
+ *
  * // Unsubscribe
  * off()
  * ```
+ *
+ * @param onError - Called with the error and the event when a handler throws.
  */
-export function createEventBus(): EventBus {
-  /** Map of event type → subscribed handlers. */
-  const handlers = new Map<GameEvent['type'], Set<(e: GameEvent) => void>>()
+export function createEventBus(onError?: (error: unknown, ev: GameEvent) => void): EventBus {
+  /** Map of event type or pattern → subscribed handlers. */
+  const handlers = new Map<string, Set<Entry>>()
+
+  /** Events waiting for the next flush. */
+  const queue: GameEvent[] = []
+
+  /** Request type → its single responder. */
+  const responders = new Map<string, (payload: unknown) => unknown>()
+
+  let seq = 0
+
+  /**
+   * Keys that match an event type: the type itself, each namespace wildcard, and `*`.
+   */
+  function keysFor(type: string): string[] {
+    const keys = [type, '*']
+    let i = type.indexOf('/')
+    while (i !== -1) {
+      keys.push(`${type.slice(0, i)}/*`)
+      i = type.indexOf('/', i + 1)
+    }
+    return keys
+  }
+
+  function dispatch(ev: GameEvent) {
+    const matched: Entry[] = []
+    for (const key of keysFor(ev.type)) {
+      const set = handlers.get(key)
+      if (set) for (const entry of set) matched.push(entry)
+    }
+    if (matched.length === 0) return
+
+    matched.sort((a, b) =>
+      a.priority === b.priority ? a.seq - b.seq : b.priority - a.priority
+    )
+
+    for (const entry of matched) {
+      if (entry.once) {
+        // Skip if already consumed by a re-entrant emit
+        if (!remove(entry)) continue
+      }
+      try {
+        entry.handler(ev)
+      } catch (err) {
+        if (onError) onError(err, ev)
+        else console.error(`Error in handler of ${ev.type}`, err)
+      }
+    }
+  }
+
+  /** Remove an entry wherever it is stored; returns whether it was present. */
+  function remove(entry: Entry): boolean {
+    for (const [key, set] of handlers) {
+      if (!set.delete(entry)) continue
+      if (set.size === 0) handlers.delete(key) // cleanup if empty
+      return true
+    }
+    return false
+  }
+
+  function subscribe(
+    type: EventPattern,
+    handler: (e: GameEvent) => void,
+    opts: SubscribeOptions | undefined,
+    once: boolean
+  ) {
+    let set = handlers.get(type)
+    if (!set) {
+      set = new Set()
+      handlers.set(type, set)
+    }
+    const entry: Entry = { handler, priority: opts?.priority ?? 0, seq: seq++, once }
+    set.add(entry)
+
+    // Return unsubscribe function
+    return () => { remove(entry) }
+  }
 
   return {
     /**
-     * Emit an event to all subscribers of its `type`.
+     * Emit an event to all handlers matching its `type`.
      *
      * @param ev - A {@link GameEvent} to broadcast.
      *
      * @remarks
-     * - Takes a snapshot of the current handler set to avoid issues if handlers
+     * - Takes a snapshot of the matching handlers to avoid issues if handlers
      *   subscribe/unsubscribe while the event is in flight.
      * - No-ops if there are no subscribers.
      */
     emit(ev: GameEvent) {
-      const set = handlers.get(ev.type)
-      if (!set || set.size === 0) return
+      dispatch(ev)
+    },
 
-      // Snapshot avoids concurrent modification problems
-      const snapshot = Array.from(set)
-      for (const h of snapshot) {
-        h(ev as any)
-      }
+    /**
+     * Queue an event for the next {@link EventBus.flush}.
+     * @param ev - A {@link GameEvent} to dispatch later.
+     */
+    post(ev: GameEvent) {
+      queue.push(ev)
     },
 
     /**
-     * Subscribe a handler to a specific event `type`.
+     * Dispatch all queued events in FIFO order.
      *
-     * @typeParam T - Discriminant string from {@link GameEvent} `type`.
-     * @param type - Event type to listen for (e.g. `"input/keydown"`).
+     * @remarks
+     * Events posted by handlers during the flush are dispatched in the same flush.
+     */
+    flush() {
+      while (queue.length) dispatch(queue.shift()!)
+    },
+
+    /**
+     * Subscribe a handler to an event `type` or pattern.
+     *
+     * @param type - Event type (e.g. `"input/keydown"`), wildcard (`"input/*"`) or `"*"`.
      * @param handler - Callback invoked with the event payload.
+     * @param opts - Optional priority.
      * @returns Function to unsubscribe the handler.
      *
      * @remarks
-     * - Handlers are stored in a `Set` to avoid duplicates.
+     * - Each call creates a separate subscription.
      * - When the unsubscribe function is called, the handler is removed.
-     * - If no handlers remain for a type, the entry is removed from the map.
+     * - If no handlers remain for a key, the entry is removed from the map.
+     */
+    on(type, handler, opts) {
+      // Internally widen to GameEvent for storage
+      return subscribe(type, handler as unknown as (e: GameEvent) => void, opts, false)
+    },
+
+    /**
+     * Subscribe a handler that is removed after its first call.
+     *
+     * @param type - Event type, wildcard or `"*"`.
+     * @param handler - Callback invoked once.
+     * @param opts - Optional priority.
+     * @returns Function to unsubscribe the handler before it fires.
+     */
+    once(type, handler, opts) {
+      return subscribe(type, handler as unknown as (e: GameEvent) => void, opts, true)
+    },
+
+    /**
+     * Call the responder of `type` and resolve with its answer.
+     *
+     * @remarks
+     * Synchronous answers resolve without a timer; a thenable answer races a
+     * `timeoutMs` timer (real time), which is cleared once it settles.
      */
-    on<T extends GameEvent['type']>(
-      type: T,
-      handler: (e: Extract<GameEvent, { type: T }>) => void
-    ) {
-      let set = handlers.get(type)
-      if (!set) {
-        set = new Set()
-        handlers.set(type, set)
+    request(type, payload, opts) {
+      const handler = responders.get(type)
+      if (!handler) return Promise.reject(new Error(`EventBus: no handler for request "${type}"`))
+
+      let answer: unknown
+      try {
+        answer = handler(payload)
+      } catch (err) {
+        return Promise.reject(err)
       }
+      const timeoutMs = opts?.timeoutMs ?? REQUEST_TIMEOUT_MS
+      if (!isThenable(answer) || timeoutMs <= 0) return Promise.resolve(answer) as Promise<never>
 
-      // Internally widen to GameEvent for storage
-      set.add(handler as unknown as (e: GameEvent) => void)
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new Error(`EventBus: request "${type}" timed out after ${timeoutMs}ms`))
+        }, timeoutMs)
+        answer.then(
+          (v) => { clearTimeout(timer); resolve(v as never) },
+          (err) => { clearTimeout(timer); reject(err) },
+        )
+      })
+    },
 
-      // Return unsubscribe function
+    /**
+     * Register the responder of `type`.
+     *
+     * @remarks
+     * The returned function only removes this handler, so a stale unsubscribe
+     * can't drop a responder registered later.
+     */
+    handle(type, handler) {
+      if (responders.has(type)) throw new Error(`EventBus: request "${type}" already has a handler`)
+      const entry = handler as (payload: unknown) => unknown
+      responders.set(type, entry)
       return () => {
-        const s = handlers.get(type)
-        if (!s) return
-        s.delete(handler as unknown as (e: GameEvent) => void)
-        if (s.size === 0) {
-          handlers.delete(type) // cleanup if empty
-        }
+        if (responders.get(type) === entry) responders.delete(type)
       }
     },
   }
 }
+
+function isThenable(v: unknown): v is PromiseLike<unknown> {
+  return typeof (v as PromiseLike<unknown> | null)?.then === 'function'
+}
@@ -0,0 +1,91 @@
+import { describeToken } from './Token'
+import type { Module, Services } from './Types'
+
+/**
+ * Order modules so every provider comes before the modules that require it.
+ *
+ * @remarks
+ * - Uses {@link Module.provides} / {@link Module.requires}; modules that declare
+ *   neither keep their relative `engine.add()` order.
+ * - The sort is stable: among modules whose requirements are met, the one added
+ *   first is placed first.
+ * - A requirement is also satisfied if the token is already registered in
+ *   `services` (e.g. by the host before `engine.init()`).
+ *
+ * @param modules - Modules in `engine.add()` order.
+ * @param services - Registry used to detect pre-registered services.
+ * @returns A new array in dependency order.
+ * @throws {Error} If a token has two providers, a requirement has no provider,
+ * or the requirements form a cycle.
+ */
+export function sortModules(modules: readonly Module[], services: Services): Module[] {
+  const providers = new Map<symbol, Module>()
+  for (const m of modules) {
+    for (const t of m.provides ?? []) {
+      const other = providers.get(t.key)
+      if (other && other !== m) {
+        throw new Error(
+          `Service ${describeToken(t)} is provided by both "${other.id}" and "${m.id}"`
+        )
+      }
+      providers.set(t.key, m)
+    }
+  }
+
+  // Edges: module → modules it depends on
+  const deps = new Map<Module, Set<Module>>()
+  for (const m of modules) {
+    const set = new Set<Module>()
+    for (const t of m.requires ?? []) {
+      const p = providers.get(t.key)
+      if (p === m) continue
+      if (p) { set.add(p); continue }
+      if (services.has(t)) continue
+      throw new Error(
+        `Module "${m.id}" requires service ${describeToken(t)}, but no module provides it`
+      )
+    }
+    deps.set(m, set)
+  }
+
+  // Kahn's algorithm, always picking the earliest-added ready module
+  const sorted: Module[] = []
+  const placed = new Set<Module>()
+  while (sorted.length < modules.length) {
+    const next = modules.find(m =>
+      !placed.has(m) && [...deps.get(m)!].every(d => placed.has(d))
+    )
+    if (!next) {
+      const remaining = modules.filter(m => !placed.has(m))
+      throw new Error(`Cyclic module dependencies: ${findCycle(remaining, deps)}`)
+    }
+    placed.add(next)
+    sorted.push(next)
+  }
+  return sorted
+}
+
+/** Describe one dependency cycle among `remaining` as `a -> b -> a`. */
+function findCycle(remaining: Module[], deps: Map<Module, Set<Module>>): string {
+  const path: Module[] = []
+  const onPath = new Set<Module>()
+  const done = new Set<Module>()
+
+  const visit = (m: Module): Module[] | undefined => {
+    if (onPath.has(m)) return [...path.slice(path.indexOf(m)), m]
+    if (done.has(m)) return undefined
+    path.push(m); onPath.add(m)
+    for (const d of deps.get(m) ?? []) {
+      const cycle = visit(d)
+      if (cycle) return cycle
+    }
+    path.pop(); onPath.delete(m); done.add(m)
+    return undefined
+  }
+
+  for (const m of remaining) {
+    const cycle = visit(m)
+    if (cycle) return cycle.map(c => `"${c.id}"`).join(' -> ')
+  }
+  return remaining.map(m => `"${m.id}"`).join(', ')
+}
@@ -0,0 +1,147 @@
+import type { RandomSource, Rng, RngService, RngState } from './Types'
+
+/**
+ * 32-bit string hash (xmur3 finalizer), used to derive stream seeds from names.
+ */
+function hashString(str: string): number {
+  let h = 1779033703 ^ str.length
+  for (let i = 0; i < str.length; i++) {
+    h = Math.imul(h ^ str.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507)
+  h = Math.imul(h ^ (h >>> 13), 3266489909)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+/**
+ * Expand a 32-bit seed into a 128-bit sfc32 state via splitmix32.
+ */
+function seedState(seed: number): [number, number, number, number] {
+  let s = seed >>> 0
+  const next = () => {
+    s = (s + 0x9e3779b9) >>> 0
+    let z = s
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+    return (z ^ (z >>> 16)) >>> 0
+  }
+  return [next(), next(), next(), next()]
+}
+
+/**
+ * Build the shared helpers on top of a raw `[0, 1)` generator.
+ */
+function helpers(next: () => number): RandomSource {
+  const int = (min: number, max: number) => {
+    const lo = Math.ceil(min), hi = Math.floor(max)
+    return lo + Math.floor(next() * (hi - lo + 1))
+  }
+  return {
+    next,
+    int,
+    range: (min: number, max: number) => min + next() * (max - min),
+    chance: (p: number) => next() < p,
+    pick<U>(items: readonly U[]): U {
+      if (!items.length) throw new Error('rng.pick: empty array')
+      return items[Math.floor(next() * items.length)]
+    },
+    shuffle<U>(items: U[]): U[] {
+      for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1))
+        const tmp = items[i]; items[i] = items[j]; items[j] = tmp
+      }
+      return items
+    },
+    weighted<U>(items: readonly U[], weights: readonly number[]): U {
+      if (!items.length || items.length !== weights.length) {
+        throw new Error('rng.weighted: items and weights must be non-empty and the same length')
+      }
+      let total = 0
+      for (const w of weights) total += Math.max(0, w)
+      if (total <= 0) throw new Error('rng.weighted: weights must sum to > 0')
+      let r = next() * total
+      for (let i = 0; i < items.length; i++) {
+        r -= Math.max(0, weights[i])
+        if (r < 0) return items[i]
+      }
+      return items[items.length - 1]
+    },
+  }
+}
+
+/**
+ * Create a single seeded generator (sfc32).
+ * @param seed - 32-bit integer seed.
+ * @returns An independent, restorable generator.
+ */
+export function createPrng(seed: number): Rng {
+  let [a, b, c, d] = seedState(seed)
+
+  const next = () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0
+    const t = (a + b) | 0
+    a = b ^ (b >>> 9)
+    b = (c + (c << 3)) | 0
+    c = (c << 21) | (c >>> 11)
+    d = (d + 1) | 0
+    const r = (t + d) | 0
+    c = (c + r) | 0
+    return (r >>> 0) / 4294967296
+  }
+
+  return {
+    ...helpers(next),
+    getState: () => [a >>> 0, b >>> 0, c >>> 0, d >>> 0],
+    setState(s) { [a, b, c, d] = s },
+  }
+}
+
+/**
+ * Create the engine's seeded random number service.
+ *
+ * @remarks
+ * - The root generator and every named stream are derived from one seed, so a
+ *   seed fully reproduces all randomness.
+ * - Streams are independent: drawing from `stream('items')` never shifts the
+ *   sequence of `stream('ai')` or the root generator.
+ *
+ * @param seed - 32-bit seed (default: random, i.e. non-reproducible).
+ * @returns A seedable, forkable RNG service.
+ */
+export function createRng(seed: number = (Math.random() * 4294967296) >>> 0): RngService {
+  let currentSeed = seed >>> 0
+  let root = createPrng(currentSeed)
+  const streams = new Map<string, Rng>()
+
+  const streamSeed = (name: string) => (currentSeed ^ hashString(name)) >>> 0
+
+  const svc: RngService = {
+    ...helpers(() => root.next()),
+    get seed() { return currentSeed },
+    stream(name) {
+      let s = streams.get(name)
+      if (!s) {
+        s = createPrng(streamSeed(name))
+        streams.set(name, s)
+      }
+      return s
+    },
+    reseed(next) {
+      currentSeed = next >>> 0
+      root = createPrng(currentSeed)
+      for (const [name, s] of streams) s.setState(createPrng(streamSeed(name)).getState())
+    },
+    getState() {
+      const out: Record<string, RngState> = {}
+      for (const [name, s] of streams) out[name] = s.getState()
+      return { seed: currentSeed, root: root.getState(), streams: out }
+    },
+    setState(snap) {
+      svc.reseed(snap.seed)
+      root.setState(snap.root)
+      for (const [name, st] of Object.entries(snap.streams)) svc.stream(name).setState(st)
+    },
+  }
+  return svc
+}
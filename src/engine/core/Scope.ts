@@ -0,0 +1,147 @@
+import type { ServiceToken } from './Token'
+import type { EventBus, GameContext, Scope, Services } from './Types'
+
+/**
+ * Create an empty {@link Scope}.
+ *
+ * @param id - Owner id, used in error messages.
+ * @returns A scope whose cleanups run on {@link Scope.dispose}.
+ */
+export function createScope(id: string): Scope {
+  const cleanups = new Set<() => void>()
+  let disposed = false
+
+  function run(fn: () => void) {
+    try {
+      fn()
+    } catch (err) {
+      console.error(`Scope ${id}: cleanup threw`, err)
+    }
+  }
+
+  function defer(fn: () => void) {
+    if (disposed) {
+      run(fn)
+      return () => {}
+    }
+    const release = () => {
+      if (cleanups.delete(release)) run(fn)
+    }
+    cleanups.add(release)
+    return release
+  }
+
+  return {
+    id,
+    get disposed() { return disposed },
+    defer,
+
+    listen(target: EventTarget, type: string, handler: (e: Event) => void, opts?: AddEventListenerOptions) {
+      target.addEventListener(type, handler, opts)
+      return defer(() => target.removeEventListener(type, handler, opts))
+    },
+
+    setTimeout(fn, ms) {
+      const handle = setTimeout(() => {
+        release()
+        fn()
+      }, ms)
+      const release = defer(() => clearTimeout(handle))
+      return release
+    },
+
+    setInterval(fn, ms) {
+      const handle = setInterval(fn, ms)
+      return defer(() => clearInterval(handle))
+    },
+
+    dispose() {
+      disposed = true
+      const pending = [...cleanups].reverse()
+      for (const release of pending) release()
+    },
+  }
+}
+
+/**
+ * View of `parent` whose subscriptions and request handlers are released by `scope`.
+ */
+function scopeBus(parent: EventBus, scope: Scope): EventBus {
+  return {
+    emit: (ev) => parent.emit(ev),
+    post: (ev) => parent.post(ev),
+    flush: () => parent.flush(),
+    on(type, handler, opts) {
+      return scope.defer(parent.on(type, handler, opts))
+    },
+    once(type, handler, opts) {
+      // Stop tracking once it has fired
+      const off = scope.defer(parent.once(type, (e) => {
+        off()
+        handler(e)
+      }, opts))
+      return off
+    },
+    request: (type, payload, opts) => parent.request(type, payload, opts),
+    handle(type, handler) {
+      return scope.defer(parent.handle(type, handler))
+    },
+  }
+}
+
+/**
+ * View of `parent` whose registrations are removed by `scope`.
+ *
+ * @remarks
+ * A service is only unregistered if it is still the one this view registered,
+ * so a module that replaced it in the meantime keeps its own. `onChange` listeners
+ * and child registries are released with the scope too.
+ */
+function scopeServices(parent: Services, scope: Scope): Services {
+  const owned = new Map<ServiceToken<unknown>, unknown>()
+  const release = () => {
+    for (const [token, service] of [...owned].reverse()) {
+      if (parent.get(token) === service) parent.delete(token)
+    }
+    owned.clear()
+  }
+  scope.defer(release)
+  return {
+    ...parent,
+    set(token, service) {
+      owned.set(token, service)
+      parent.set(token, service)
+    },
+    delete(token) {
+      owned.delete(token)
+      return parent.delete(token)
+    },
+    onChange: (token, fn) => scope.defer(parent.onChange(token, fn)),
+    child() {
+      const child = parent.child()
+      scope.defer(() => child.dispose())
+      return child
+    },
+    // Only what this view registered; the shared registry belongs to the engine
+    dispose: release,
+  }
+}
+
+/**
+ * Derive a module's context from `parent`: same config, with a bus and service
+ * registry that record what the module subscribes and registers, and a fresh scope
+ * that releases it all.
+ *
+ * @param parent - Context to derive from (the engine's, or a scene's).
+ * @param id - Owner id (usually the module id).
+ * @returns The scoped context; dispose it with `ctx.scope.dispose()`.
+ */
+export function scopeContext(parent: GameContext, id: string): GameContext {
+  const scope = createScope(id)
+  return {
+    config: parent.config,
+    bus: scopeBus(parent.bus, scope),
+    services: scopeServices(parent.services, scope),
+    scope,
+  }
+}
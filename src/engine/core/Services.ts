@@ -1,36 +1,169 @@
+import { describeToken } from './Token'
 import type { ServiceToken } from './Token'
-import type { TimeService, AssetService, Services } from './Types'
+import type { TimeService, AssetService, Services, RngService } from './Types'
+import { createRng } from './Rng'
 
 /**
  * Create a new, empty service registry.
+ *
+ * @remarks
+ * - `get` / `has` / `getOrThrow` tell an absent service from a falsy one
+ *   (`0`, `false`, `null` are valid services).
+ * - Removing a service (`delete`, or disposing its registry) calls its `dispose()`, if any.
+ * - `child()` creates a registry that sees this one's services but registers its own
+ *   locally, shadowing the parent's; disposing it leaves the parent untouched.
+ *
+ * @param time - Time service to expose (default: 60 Hz on `performance.now`).
+ * @param rng - Random number service (default: randomly seeded).
  * @returns A new service registry.
  */
-export function createServices(): Services {
+export function createServices(
+  time: TimeService = createTime(1/60),
+  rng: RngService = createRng()
+): Services {
+  return createRegistry(time, createAssets(), rng)
+}
+
+/** Call a removed service's `dispose()`, if it has one. */
+function disposeService(service: unknown) {
+  const dispose = (service as { dispose?: unknown } | null | undefined)?.dispose
+  if (typeof dispose !== 'function') return
+  try {
+    dispose.call(service)
+  } catch (err) {
+    console.error('Services: dispose() of a removed service threw', err)
+  }
+}
+
+/**
+ * Registry sharing `time`, `assets` and `rng`, optionally falling back to `parent`.
+ */
+function createRegistry(
+  time: TimeService,
+  assets: AssetService,
+  rng: RngService,
+  parent?: Services
+): Services {
   const bag = new Map<symbol, unknown>()
+  const listeners = new Map<symbol, Set<(v: unknown) => void>>()
+  /** Unsubscribers for parent listeners, released on dispose. */
+  const detach = new Set<() => void>()
+  let disposed = false
+
+  const has = <T>(t: ServiceToken<T>): boolean => bag.has(t.key) || (parent?.has(t) ?? false)
+  const get = <T>(t: ServiceToken<T>) =>
+    (bag.has(t.key) ? bag.get(t.key) : parent?.get(t)) as T | undefined
+
+  function notify(t: ServiceToken<unknown>) {
+    const set = listeners.get(t.key)
+    if (!set) return
+    const v = get(t)
+    for (const fn of [...set]) fn(v)
+  }
+
+  const set = <T>(t: ServiceToken<T>, v: T) => {
+    if (disposed) throw new Error(`Services: cannot set ${describeToken(t)} on a disposed registry`)
+    bag.set(t.key, v)
+    notify(t)
+  }
+
+  const del = <T>(t: ServiceToken<T>) => {
+    if (!bag.has(t.key)) return false
+    const v = bag.get(t.key)
+    bag.delete(t.key)
+    disposeService(v)
+    notify(t)
+    return true
+  }
 
-  const get = <T>(t: ServiceToken<T>) => bag.get(t.key) as T | undefined
-  const set = <T>(t: ServiceToken<T>, v: T) => { bag.set(t.key, v) }
-  const has = <T>(t: ServiceToken<T>) => bag.has(t.key)
   const getOrThrow = <T>(t: ServiceToken<T>) => {
-    const v = get(t); if (!v) throw new Error(`Missing service: ${String(t.key.description ?? 'unknown')}`)
-    return v
+    if (!has(t)) throw new Error(`Missing service: ${describeToken(t)}`)
+    return get(t) as T
   }
 
-  return {
-    time: createTime(1/60),
-    assets: createAssets(),
-    rng: () => Math.random(),
-    get, getOrThrow, set, has,
+  const onChange = <T>(t: ServiceToken<T>, fn: (service: T | undefined) => void) => {
+    let set = listeners.get(t.key)
+    if (!set) {
+      set = new Set()
+      listeners.set(t.key, set)
+    }
+    const entry = fn as (v: unknown) => void
+    set.add(entry)
+    // Parent changes are visible here unless a local service shadows them
+    const offParent = parent?.onChange(t, (v) => { if (!bag.has(t.key)) fn(v) })
+    if (offParent) detach.add(offParent)
+    return () => {
+      set!.delete(entry)
+      if (set!.size === 0 && listeners.get(t.key) === set) listeners.delete(t.key)
+      if (offParent) {
+        offParent()
+        detach.delete(offParent)
+      }
+    }
+  }
+
+  const waitFor = <T>(t: ServiceToken<T>) => {
+    if (has(t)) return Promise.resolve(get(t) as T)
+    return new Promise<T>((resolve) => {
+      const off = onChange(t, () => {
+        if (!has(t)) return
+        off()
+        resolve(get(t) as T)
+      })
+    })
   }
+
+  const registry: Services = {
+    time,
+    assets,
+    rng,
+    get, getOrThrow, set, has, waitFor, onChange,
+    delete: del,
+    child: () => createRegistry(time, assets, rng, registry),
+    dispose() {
+      if (disposed) return
+      for (const key of [...bag.keys()].reverse()) {
+        const v = bag.get(key)
+        bag.delete(key)
+        disposeService(v)
+      }
+      for (const off of detach) off()
+      detach.clear()
+      listeners.clear()
+      disposed = true
+    },
+  }
+  return registry
 }
 
 /**
  * Create a timekeeping service.
  * @param fixedStep - Fixed step size in seconds (e.g., 1/60).
+ * @param now - Clock in milliseconds (default `performance.now`).
+ * @param onPausedChange - Called whenever `paused` flips.
  * @returns A timekeeping service.
  */
-export function createTime(fixedStep: number): TimeService {
-  return { now: () => performance.now(), fixedStep, accumulator: 0 }
+export function createTime(
+  fixedStep: number,
+  now: () => number = () => performance.now(),
+  onPausedChange?: (paused: boolean) => void
+): TimeService {
+  let paused = false
+  return {
+    now, fixedStep, accumulator: 0,
+    scale: 1,
+    get paused() { return paused },
+    set paused(v: boolean) {
+      if (v === paused) return
+      paused = v
+      onPausedChange?.(v)
+    },
+    pendingSteps: 0,
+    stepOnce(n = 1) { this.pendingSteps += Math.max(0, n | 0) },
+    simTime: 0,
+    realTime: 0,
+    tick: 0,
+  }
 }
 
 /**
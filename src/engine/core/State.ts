@@ -0,0 +1,19 @@
+/**
+ * A typed key into the reactive store.
+ * @remarks
+ * Like a service token, the `key` symbol identifies the value; `initial` is what
+ * the store returns until something is set.
+ */
+export type StateKey<T> = { readonly key: unique symbol; readonly name: string; readonly initial: T }
+
+/**
+ * Defines a new store key.
+ * @remarks
+ * Define each key once, in a module shared by the publisher and its readers
+ * (e.g. `engine/core/state`); two calls with the same name create two unrelated keys.
+ * @param name - A description for the value, shown in the store's debug panel.
+ * @param initial - Value before anything is published.
+ * @returns A new store key.
+ */
+export const defineState = <T>(name: string, initial: T): StateKey<T> =>
+  ({ key: Symbol(name), name, initial }) as StateKey<T>
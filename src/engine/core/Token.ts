@@ -17,3 +17,11 @@ export type ServiceToken<T> = { readonly key: unique symbol }
  */
 export const defineToken = <T>(desc: string): ServiceToken<T> =>
   ({ key: Symbol(desc) }) as ServiceToken<T>
+
+/**
+ * Human-readable name of a service token, for error messages and debugging.
+ * @param token - The token to describe.
+ * @returns The token's description, or `"unknown"`.
+ */
+export const describeToken = (token: ServiceToken<unknown>): string =>
+  String(token.key.description ?? 'unknown')
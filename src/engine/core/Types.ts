@@ -24,35 +24,160 @@ export type EngineConfig = {
   height: number;
 
   /**
-   * Target frames per second for the simulation/render loop.
+   * Target simulation rate in updates per second (default `60`).
    * @remarks
-   * The engine uses a fixed-step update (`time.fixedStep`) and
-   * may run multiple updates per animation frame to catch up.
-   * This value is advisory; browsers schedule actual frames.
+   * Sets the fixed step: `time.fixedStep = 1 / targetFPS`. The engine
+   * may run multiple updates per animation frame to catch up; the render
+   * rate is still decided by the {@link FrameDriver}.
    */
   targetFPS?: number;
 
+  /**
+   * Upper bound on fixed-step updates run in a single frame (default `5`).
+   * @remarks
+   * Time that cannot be simulated within the budget is dropped and reported
+   * via a `time/overrun` event, preventing a "spiral of death" after long stalls.
+   */
+  maxSubsteps?: number;
+
+  /**
+   * Largest real-time delta, in milliseconds, accepted for one frame (default `250`).
+   * Longer gaps (GC pauses, breakpoints) are clamped and the excess is reported as dropped.
+   */
+  maxFrameMs?: number;
+
+  /**
+   * Seed for {@link Services.rng} (32-bit integer).
+   * @remarks
+   * Omit for a random seed. Set it to reproduce runs (tests, replays, "No RNG" modes).
+   */
+  seed?: number;
+
+  /**
+   * Pause the simulation while the page is hidden (`visibilitychange`) and
+   * resume when it becomes visible again (default `true`). No-op without a `document`.
+   */
+  pauseOnHidden?: boolean;
+
+  /**
+   * What to do when a module hook throws (default `"disable"`).
+   * @remarks
+   * Applies to every module that does not set its own {@link Module.faultPolicy}.
+   */
+  faultPolicy?: FaultPolicy;
+
+  /**
+   * How many times a module with the `"restart"` policy may be restarted before
+   * it is disabled instead (default `3`).
+   */
+  maxRestarts?: number;
+
   /**
    * Optional DOM element to mount a created canvas into.
    * Ignored if `canvas` is provided.
    */
   mount?: HTMLElement;
+
+  /**
+   * Scheduler and clock that drive the engine loop.
+   * @remarks
+   * Defaults to `requestAnimationFrame` + `performance.now()`. Supply
+   * `createIntervalDriver()` or `createManualDriver()` to run without a browser.
+   */
+  driver?: FrameDriver;
 };
 
+/**
+ * Pluggable clock and frame scheduler used by the {@link Engine} loop.
+ *
+ * @remarks
+ * The engine asks the driver for one frame at a time via {@link FrameDriver.request}
+ * and measures elapsed time with {@link FrameDriver.now}. Swap the driver to run
+ * the same modules under rAF, a timer, or fully manual stepping.
+ */
+export interface FrameDriver {
+  /**
+   * Monotonic timestamp in milliseconds.
+   */
+  now(): number;
+
+  /**
+   * Schedule `frame` to be called once with the current timestamp (ms).
+   * The engine re-requests after every frame while running.
+   */
+  request(frame: (t: number) => void): void;
+
+  /**
+   * Cancel any pending frame request.
+   */
+  cancel(): void;
+
+  /**
+   * Advance a virtual clock by `ms` (manual drivers only).
+   * Called by {@link Engine.tick} so `now()` tracks manually stepped time.
+   */
+  advance?(ms: number): void;
+}
+
+/**
+ * How the engine reacts when a module hook throws.
+ *
+ * @remarks
+ * In every case the error is logged, the module is disabled and an
+ * `engine/moduleError` event is emitted; the other modules keep running.
+ * - `"disable"` — leave the module disabled until {@link Engine.enable} is called.
+ * - `"restart"` — call `destroy()`, then `init()` and `start()` again, and re-enable
+ *   the module on success. After `maxRestarts` failures it stays disabled.
+ * - `"halt"` — stop the engine loop (the last frame is still rendered). A failure in
+ *   `init()` or `start()` is rethrown, aborting startup.
+ */
+export type FaultPolicy = "disable" | "restart" | "halt";
+
+/**
+ * Simulation state captured by `Engine.snapshot()`: fixed-step clock, RNG and
+ * every module implementing {@link Module.snapshot}, keyed by module id.
+ */
+export type EngineSnapshot = {
+  tick: number;
+  simTime: number;
+  rng: RngSnapshot;
+  modules: Record<string, unknown>;
+};
+
+/**
+ * Name of a {@link Module} lifecycle hook, as reported by `engine/moduleError`.
+ */
+export type ModuleHook =
+  "init" | "start" | UpdatePhase | RenderPhase | "onEvent" | "snapshot" | "restore" | "destroy";
+
+/**
+ * Fixed-step phases, in the order they run for each step.
+ */
+export type UpdatePhase = "preUpdate" | "update" | "postUpdate" | "lateUpdate";
+
+/**
+ * Per-frame render phases, in the order they run.
+ */
+export type RenderPhase = "render" | "postRender";
+
 /**
  * Contract for all engine modules (plugins).
  *
  * @remarks
  * A module is a self-contained feature (renderer, audio, input, AI, UI, etc.)
  * that communicates via the {@link EventBus} and {@link Services} registry.
- * The engine drives the lifecycle in this order:
+ * The engine drives the lifecycle in this order (modules are ordered by
+ * their {@link Module.provides} / {@link Module.requires} declarations, then by `add()` order):
  *
  * 1. `init(ctx)`   — register services, subscribe to events (once).
  * 2. `start(ctx)`  — load assets / reset state (once, before the loop).
- * 3. `update(ctx)` — fixed-step simulation tick (0..n times per frame).
- * 4. `render(ctx)` — draw current state (once per frame).
+ * 3. Fixed step (0..n times per frame), each phase across all modules before the next:
+ *    `preUpdate` (input sampling) → `update` (gameplay) → `postUpdate` (physics)
+ *    → `lateUpdate` (camera follow, per-step cleanup).
+ * 4. `render(ctx)` then `postRender(ctx)` — draw current state (once per frame).
  * 5. `destroy()`   — cleanup on shutdown.
  *
+ * Events posted to the bus during a phase are delivered before the next phase starts.
  * Implement only the hooks you need.
  */
 export interface Module {
@@ -62,6 +187,31 @@ export interface Module {
    */
   id: string;
 
+  /**
+   * Service tokens this module registers during `init()`.
+   *
+   * @remarks
+   * Used by the engine to order modules: providers are initialized, started,
+   * updated and rendered before the modules that {@link Module.requires | require} them.
+   */
+  provides?: ServiceToken<unknown>[];
+
+  /**
+   * Service tokens that must be registered before this module's `init()` runs.
+   *
+   * @remarks
+   * The engine fails fast with a readable error if no module provides one of
+   * these, or if requirements form a cycle. Services only used lazily (e.g. in
+   * `render`) or optionally don't need to be listed; for providers that register
+   * asynchronously, use {@link Services.waitFor}.
+   */
+  requires?: ServiceToken<unknown>[];
+
+  /**
+   * Fault policy for this module; overrides {@link EngineConfig.faultPolicy}.
+   */
+  faultPolicy?: FaultPolicy;
+
   /**
    * Called once after the module is added, before `start()`.
    *
@@ -69,6 +219,7 @@ export interface Module {
    * Use this to:
    * - Register services: `ctx.services.set('my/service', api)`
    * - Subscribe to events: `ctx.bus.on('level/loaded', ...)`
+   * Both are undone automatically when the module is removed (see {@link Scope}).
    * Avoid heavy network/asset work here; prefer `start()`.
    */
   init?(ctx: GameContext): Promise<void> | void;
@@ -82,6 +233,14 @@ export interface Module {
    */
   start?(ctx: GameContext): Promise<void> | void;
 
+  /**
+   * First fixed-step phase, before any module's `update`.
+   *
+   * @remarks
+   * Sample or inject input here so every `update` sees the same state for the step.
+   */
+  preUpdate?(ctx: GameContext, dt: number): void;
+
   /**
    * Fixed-step simulation update.
    *
@@ -94,6 +253,22 @@ export interface Module {
    */
   update?(ctx: GameContext, dt: number): void;
 
+  /**
+   * Fixed-step phase after every module's `update`.
+   *
+   * @remarks
+   * Integrate the results of gameplay here, e.g. step the physics world.
+   */
+  postUpdate?(ctx: GameContext, dt: number): void;
+
+  /**
+   * Last fixed-step phase, after `postUpdate` (and its posted events) has run.
+   *
+   * @remarks
+   * React to the final state of the step: camera follow, clearing per-step input edges.
+   */
+  lateUpdate?(ctx: GameContext, dt: number): void;
+
   /**
    * Render pass, called once per animation frame after all pending updates.
    *
@@ -106,6 +281,15 @@ export interface Module {
    */
   render?(ctx: GameContext, alpha: number): void;
 
+  /**
+   * Called once per frame after every module's `render`.
+   *
+   * @remarks
+   * Use it to consume what was produced during `render`, e.g. the render
+   * coordinator executes the queued draws here.
+   */
+  postRender?(ctx: GameContext, alpha: number): void;
+
   /**
    * Optional centralized event handler.
    *
@@ -116,28 +300,62 @@ export interface Module {
   onEvent?(ctx: GameContext, event: GameEvent): void;
 
   /**
-   * Cleanup hook invoked when the engine stops.
-   * Unsubscribe listeners, release audio/graphics resources, etc.
+   * Capture this module's simulation state for {@link EngineSnapshot}.
+   *
+   * @remarks
+   * Called between fixed steps (possibly every step, for rollback), so keep it cheap.
+   * The value stays in memory and is only handed back to {@link Module.restore};
+   * it may hold references, but must not be mutated by later steps.
+   */
+  snapshot?(ctx: GameContext): unknown;
+
+  /**
+   * Return to a state captured by {@link Module.snapshot}.
+   *
+   * @remarks
+   * Called between fixed steps; the steps after it are usually re-simulated.
+   */
+  restore?(ctx: GameContext, state: unknown): void;
+
+  /**
+   * Cleanup hook invoked when the engine stops or the module is removed.
+   * Release audio/graphics resources, etc. Bus subscriptions, services and anything
+   * registered on {@link GameContext.scope} are released right after it.
    */
   destroy?(): void;
 }
 
 /**
- * Minimal, documented event set.
+ * Registry of all bus events: event `type` → payload shape.
+ *
  * @remarks
- * Prefer short, flat, namespaced `type` strings. Extend this union in your project as needed.
+ * Prefer short, flat, namespaced `type` strings. This interface is open: modules
+ * add their own events with declaration merging instead of editing this file.
+ *
+ * @example
+ * ```ts
+ * // modules/race/types.ts
+ * declare module '../../engine/core/Types' {
+ *   interface GameEventMap {
+ *     'race/lap': { lap: number; timeMs: number };
+ *   }
+ * }
+ *
+ * ctx.bus.on('race/lap', e => console.log(e.lap, e.timeMs))   // fully typed
+ * ctx.bus.emit({ type: 'race/lap', lap: 2, timeMs: 61234 })
+ * ```
  */
-export type GameEvent =
+export interface GameEventMap {
   /**
    * DOM key pressed (keydown) translated into a game event.
    * - `key`: The KeyboardEvent `key` value (e.g., `"ArrowUp"`, `"a"`).
    */
-  | { type: "input/keydown"; key: string }
+  "input/keydown": { key: string };
   /**
    * DOM key released (keyup) translated into a game event.
    * - `key`: The KeyboardEvent `key` value (e.g., `"ArrowUp"`, `"a"`).
    */
-  | { type: "input/keyup"; key: string }
+  "input/keyup": { key: string };
   /**
    * Pointer (mouse/touch) button pressed.
    * - `id`: Unique pointer ID (touch identifier or `1` for mouse).
@@ -145,14 +363,13 @@ export type GameEvent =
    * - `x`, `y`: Position in canvas pixels.
    * - `buttons`: Bitfield of currently pressed buttons (1=left, 2=right, 4=middle).
    */
-  | {
-      type: "input/pointerdown";
-      id: number;
-      button: number;
-      x: number;
-      y: number;
-      buttons: number;
-    }
+  "input/pointerdown": {
+    id: number;
+    button: number;
+    x: number;
+    y: number;
+    buttons: number;
+  };
   /**
    * Pointer (mouse/touch) button released.
    * - `id`: Unique pointer ID (touch identifier or `1` for mouse).
@@ -160,14 +377,13 @@ export type GameEvent =
    * - `x`, `y`: Position in canvas pixels.
    * - `buttons`: Bitfield of currently pressed buttons (1=left, 2=right, 4=middle).
    */
-  | {
-      type: "input/pointerup";
-      id: number;
-      button: number;
-      x: number;
-      y: number;
-      buttons: number;
-    }
+  "input/pointerup": {
+    id: number;
+    button: number;
+    x: number;
+    y: number;
+    buttons: number;
+  };
   /**
    * Pointer (mouse/touch) moved.
    * - `id`: Unique pointer ID (touch identifier or `1` for mouse).
@@ -175,98 +391,312 @@ export type GameEvent =
    * - `dx`, `dy`: Movement delta since last event.
    * - `buttons`: Bitfield of currently pressed buttons (1=left, 2=right, 4=middle).
    */
-  | {
-      type: "input/pointermove";
-      id: number;
-      x: number;
-      y: number;
-      dx: number;
-      dy: number;
-      buttons: number;
-    }
+  "input/pointermove": {
+    id: number;
+    x: number;
+    y: number;
+    dx: number;
+    dy: number;
+    buttons: number;
+  };
   /**
    * Pointer (mouse) wheel scrolled.
    * - `x`, `y`: Position in canvas pixels.
    * - `dx`, `dy`: Scroll delta (pixels, may be fractional).
    */
-  | { type: "input/wheel"; x: number; y: number; dx: number; dy: number }
+  "input/wheel": { x: number; y: number; dx: number; dy: number };
   /**
    * A level has been loaded and is ready.
    * - `name`: Logical level name or identifier.
    */
-  | { type: "level/loaded"; name: string }
+  "level/loaded": { name: string };
   /**
    * Request to play a sound via the audio system.
    * - `sound`: Asset key for an audio buffer/clip.
    * - `loop`: Play in a loop (default: `false`).
    * - `volume`: Linear volume 0..1 (module may clamp).
    */
-  | { type: "audio/play"; sound: string; loop?: boolean; volume?: number }
+  "audio/play": { sound: string; loop?: boolean; volume?: number };
   /**
    * The render surface has been resized.
    * - `width`: New logical width.
    * - `height`: New logical height.
    */
-  | { type: "render/resize"; width: number; height: number }
+  "render/resize": { width: number; height: number };
+  /**
+   * The simulation was paused via {@link TimeService.paused}.
+   */
+  "time/paused": {};
+  /**
+   * The simulation was resumed via {@link TimeService.paused}.
+   */
+  "time/resumed": {};
+  /**
+   * A frame exceeded its update budget and simulated time was dropped.
+   * - `droppedMs`: Real time (after scaling) that was discarded.
+   * - `steps`: Fixed steps run in the offending frame.
+   */
+  "time/overrun": { droppedMs: number; steps: number };
+  /**
+   * A module joined a running engine via {@link Engine.attach}.
+   * - `id`: The module id.
+   */
+  "engine/moduleAdded": { id: string };
+  /**
+   * A module was destroyed and removed via {@link Engine.remove}, or by the
+   * scene manager when the module's scene exited.
+   * - `id`: The module id.
+   */
+  "engine/moduleRemoved": { id: string };
+  /**
+   * A disabled module was re-enabled via {@link Engine.enable}.
+   * - `id`: The module id.
+   */
+  "engine/moduleEnabled": { id: string };
+  /**
+   * A module was disabled via {@link Engine.disable}; it keeps its state but
+   * receives no update, render or event callbacks.
+   * - `id`: The module id.
+   */
+  "engine/moduleDisabled": { id: string };
+  /**
+   * A module hook threw; the engine applied its {@link FaultPolicy}.
+   * - `id`: The module id.
+   * - `hook`: The hook that threw.
+   * - `policy`: The policy that was applied (`"disable"` once restarts are exhausted).
+   * - `message`, `stack`: Extracted from the thrown value.
+   * - `error`: The thrown value itself.
+   */
+  "engine/moduleError": {
+    id: string;
+    hook: ModuleHook;
+    policy: FaultPolicy;
+    message: string;
+    stack?: string;
+    error: unknown;
+  };
   /**
    * Collision started event from the physics system.
    * - `bodyA`: ID of the first body.
    * - `bodyB`: ID of the second body.
    */
-  | { type: "physics/collisionStart"; bodyA: number; bodyB: number }
+  "physics/collisionStart": { bodyA: number; bodyB: number };
   /**
    * Collision ended event from the physics system.
    * - `bodyA`: ID of the first body.
    * - `bodyB`: ID of the second body.
    */
-  | { type: "physics/collisionEnd"; bodyA: number; bodyB: number }
+  "physics/collisionEnd": { bodyA: number; bodyB: number };
   /**
    * Register a debug panel to appear in the debug overlay.
    * - `panel`: The panel definition.
    */
-  | { type: "debug/panel/register"; panel: DebugPanel }
+  "debug/panel/register": { panel: DebugPanel };
   /**
    * Unregister a debug panel by ID.
    * - `id`: The panel ID to remove.
    */
-  | { type: "debug/panel/unregister"; id: PanelId };
+  "debug/panel/unregister": { id: PanelId };
+}
+
+/**
+ * Every registered event `type` string.
+ */
+export type GameEventType = keyof GameEventMap & string;
+
+/**
+ * A bus event: `{ type }` plus the payload declared in {@link GameEventMap}.
+ *
+ * @typeParam K - Restrict to one or more event types (default: all).
+ * @remarks
+ * The default is a discriminated union, so `switch (e.type)` narrows the payload.
+ */
+export type GameEvent<K extends GameEventType = GameEventType> = {
+  [P in K]: { type: P } & GameEventMap[P];
+}[K];
+
+/**
+ * Namespace wildcards for an event type: `"debug/panel/register"` →
+ * `"debug/*" | "debug/panel/*"`.
+ */
+type WildcardsOf<T extends string> =
+  T extends `${infer Head}/${infer Rest}` ? `${Head}/*` | `${Head}/${WildcardsOf<Rest>}` : never;
+
+/**
+ * Anything {@link EventBus.on} accepts: an exact event type, a namespace
+ * wildcard such as `"input/*"`, or `"*"` for every event.
+ */
+export type EventPattern = GameEventType | WildcardsOf<GameEventType> | "*";
+
+/**
+ * The events matched by an {@link EventPattern}.
+ */
+export type PatternEvent<P extends EventPattern> =
+  P extends "*" ? GameEvent
+  : P extends `${infer NS}/*` ? GameEvent<Extract<GameEventType, `${NS}/${string}`>>
+  : P extends GameEventType ? GameEvent<P>
+  : never;
+
+/**
+ * Registry of request/response channels: request `type` → `{ request, response }` shapes.
+ *
+ * @remarks
+ * Open like {@link GameEventMap}: the module that answers a request declares it next to
+ * its code with declaration merging. Answer with {@link EventBus.handle}, ask with
+ * {@link EventBus.request}.
+ *
+ * @example
+ * ```ts
+ * // modules/level/types.ts
+ * declare module '../../engine/core/Types' {
+ *   interface GameRequestMap {
+ *     'level/isLoaded': { request: { name: string }; response: boolean };
+ *   }
+ * }
+ *
+ * ctx.bus.handle('level/isLoaded', ({ name }) => loaded.has(name))   // in the level module
+ * const ok = await ctx.bus.request('level/isLoaded', { name: 'L1' })  // anywhere else
+ * ```
+ */
+export interface GameRequestMap {}
+
+/**
+ * Every registered request `type` string.
+ */
+export type GameRequestType = keyof GameRequestMap & string;
+
+/** Payload sent with a request of type `K`. */
+export type RequestPayload<K extends GameRequestType> =
+  GameRequestMap[K] extends { request: infer Q } ? Q : never;
+
+/** Value a request of type `K` resolves to. */
+export type RequestResponse<K extends GameRequestType> =
+  GameRequestMap[K] extends { response: infer R } ? R : never;
+
+/**
+ * Options for {@link EventBus.request}.
+ */
+export type RequestOptions = {
+  /**
+   * Reject if an async handler hasn't answered within this many milliseconds of
+   * real time (default `5000`; `0` waits forever).
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Options for {@link EventBus.on} / {@link EventBus.once}.
+ */
+export type SubscribeOptions = {
+  /**
+   * Higher priorities run first (default `0`). Handlers with equal priority run
+   * in subscription order.
+   */
+  priority?: number;
+};
 
 /**
  * Typed publish/subscribe event bus shared by all modules.
+ *
+ * @remarks
+ * - `emit` dispatches synchronously; `post` queues the event until the next
+ *   {@link EventBus.flush}. Within a fixed step the engine flushes after each update
+ *   phase has run on every module, so events raised mid-phase (e.g. physics contacts)
+ *   are handled before the next phase instead of re-entrantly; it flushes once more
+ *   before render for events posted outside the step (e.g. by DOM handlers).
+ * - Patterns: exact type (`"input/keydown"`), namespace wildcard (`"input/*"`,
+ *   matches all deeper types too) or `"*"`.
+ * - `request` / `handle` add typed request/response channels (see {@link GameRequestMap})
+ *   with exactly one responder per type.
  */
 export interface EventBus {
   /**
-   * Emit a game event to all current subscribers of the event's `type`.
+   * Emit a game event immediately to all handlers matching its `type`.
    */
   emit(ev: GameEvent): void;
 
   /**
-   * Subscribe to a specific event `type`.
+   * Queue an event for dispatch at the next {@link EventBus.flush}.
+   */
+  post(ev: GameEvent): void;
+
+  /**
+   * Dispatch queued events in FIFO order, including events posted while flushing.
+   */
+  flush(): void;
+
+  /**
+   * Subscribe to an event `type` or pattern.
    *
-   * @typeParam T - Discriminant string from {@link GameEvent} `type`.
-   * @param type - The event `type` to listen for.
+   * @typeParam P - An event type registered in {@link GameEventMap}, a namespace wildcard, or `"*"`.
+   * @param type - The event type or pattern to listen for.
    * @param handler - Callback invoked with the event payload.
+   * @param opts - Subscription options (priority).
    * @returns Function to unsubscribe the handler.
    *
    * @example
    * ```ts
    * const off = ctx.bus.on('input/keydown', e => console.log(e.key));
+   * ctx.bus.on('input/*', e => recorder.push(e), { priority: 100 });
    * // later
    * off();
    * ```
    */
-  on<T extends GameEvent["type"]>(
-    type: T,
-    handler: (e: Extract<GameEvent, { type: T }>) => void
+  on<P extends EventPattern>(
+    type: P,
+    handler: (e: PatternEvent<P>) => void,
+    opts?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Like {@link EventBus.on}, but the handler is removed before its first call.
+   * @returns Function to unsubscribe the handler before it fires.
+   */
+  once<P extends EventPattern>(
+    type: P,
+    handler: (e: PatternEvent<P>) => void,
+    opts?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Ask the module that handles `type` and wait for its answer.
+   *
+   * @remarks
+   * The handler runs synchronously inside this call; only its (possibly async) result
+   * is delivered through the promise.
+   * @returns The handler's response.
+   * @throws Rejects if no handler is registered, the handler throws or rejects, or an
+   * async answer takes longer than `timeoutMs`.
+   */
+  request<K extends GameRequestType>(
+    type: K,
+    payload: RequestPayload<K>,
+    opts?: RequestOptions
+  ): Promise<RequestResponse<K>>;
+
+  /**
+   * Answer requests of `type`. Each type has at most one handler.
+   * @returns Function to stop handling `type`.
+   * @throws {Error} If `type` already has a handler.
+   */
+  handle<K extends GameRequestType>(
+    type: K,
+    handler: (payload: RequestPayload<K>) => RequestResponse<K> | Promise<RequestResponse<K>>
   ): () => void;
 }
 
 /**
  * Timekeeping utilities used by the engine loop.
+ *
+ * @remarks
+ * Two clocks are tracked:
+ * - **Real time** ({@link TimeService.realTime}) advances with wall-clock frames, even while paused.
+ * - **Sim time** ({@link TimeService.simTime}) advances by `fixedStep` per simulated update, so it
+ *   honours {@link TimeService.paused}, {@link TimeService.scale} and single-stepping.
  */
 export interface TimeService {
   /**
-   * Monotonic timestamp in milliseconds (typically `performance.now()`).
+   * Monotonic timestamp in milliseconds, read from the engine's {@link FrameDriver}.
    */
   now(): number;
 
@@ -281,6 +711,117 @@ export interface TimeService {
    * Advanced by the engine and consumed by fixed-step updates.
    */
   accumulator: number;
+
+  /**
+   * Multiplier applied to real time before it feeds the accumulator.
+   * `1` is normal speed, `0.25` is slow motion, `2` is fast-forward.
+   * `dt` passed to modules stays `fixedStep`; only the number of steps per frame changes.
+   */
+  scale: number;
+
+  /**
+   * When `true`, no fixed-step updates run (render still does).
+   * Changing it emits `time/paused` / `time/resumed` on the bus.
+   */
+  paused: boolean;
+
+  /**
+   * Request `n` extra fixed steps on the next frame (default `1`).
+   * Intended for frame-by-frame debugging while {@link TimeService.paused}.
+   */
+  stepOnce(n?: number): void;
+
+  /**
+   * Single steps requested via {@link TimeService.stepOnce}, consumed by the engine.
+   */
+  pendingSteps: number;
+
+  /**
+   * Simulated seconds elapsed (sum of all fixed steps run).
+   */
+  simTime: number;
+
+  /**
+   * Real seconds elapsed since the loop started, unaffected by pause and scale.
+   */
+  realTime: number;
+
+  /**
+   * Number of fixed steps completed since the loop started.
+   */
+  tick: number;
+}
+
+/**
+ * Serializable state of a single generator (four 32-bit words).
+ */
+export type RngState = [number, number, number, number];
+
+/**
+ * Serializable state of the whole {@link RngService}: seed, root generator and all named streams.
+ */
+export type RngSnapshot = {
+  seed: number;
+  root: RngState;
+  streams: Record<string, RngState>;
+};
+
+/**
+ * Helpers shared by every deterministic random source.
+ */
+export interface RandomSource {
+  /** Float in `[0, 1)`. */
+  next(): number;
+  /** Integer in `[min, max]` (inclusive). */
+  int(min: number, max: number): number;
+  /** Float in `[min, max)`. */
+  range(min: number, max: number): number;
+  /** `true` with probability `p`. */
+  chance(p: number): boolean;
+  /** Uniformly pick one element. Throws on an empty array. */
+  pick<T>(items: readonly T[]): T;
+  /** Shuffle `items` in place (Fisher–Yates) and return it. */
+  shuffle<T>(items: T[]): T[];
+  /** Pick one element with probability proportional to its weight. */
+  weighted<T>(items: readonly T[], weights: readonly number[]): T;
+}
+
+/**
+ * A single seeded generator whose state can be saved and restored.
+ */
+export interface Rng extends RandomSource {
+  getState(): RngState;
+  setState(state: RngState): void;
+}
+
+/**
+ * Seeded, forkable random number service.
+ *
+ * @remarks
+ * Use named streams to keep unrelated systems from perturbing each other
+ * (e.g. item rolls don't change AI decisions). Never use `Math.random()` in
+ * simulation code: it breaks replays and tests.
+ *
+ * @example
+ * ```ts
+ * const items = ctx.services.rng.stream('items')
+ * const drop = items.weighted(['boost', 'shield', 'rocket'], [5, 3, 1])
+ * const saved = ctx.services.rng.getState()
+ * // ...
+ * ctx.services.rng.setState(saved)
+ * ```
+ */
+export interface RngService extends RandomSource {
+  /** Seed the service was last (re)seeded with. */
+  readonly seed: number;
+  /** Independent generator derived from the seed and `name`; the same name returns the same stream. */
+  stream(name: string): Rng;
+  /** Reset the root generator and all streams from a new seed. */
+  reseed(seed: number): void;
+  /** Capture seed and every generator's position. */
+  getState(): RngSnapshot;
+  /** Restore a state captured with {@link RngService.getState}. */
+  setState(state: RngSnapshot): void;
 }
 
 /**
@@ -315,12 +856,147 @@ export interface AssetService {
 export interface Services {
   time: TimeService;
   assets: AssetService;
-  rng: () => number;
+  rng: RngService;
 
   get<T>(token: ServiceToken<T>): T | undefined;
+
+  /**
+   * Like {@link Services.get}, for services that must exist.
+   * @throws {Error} If nothing is registered under `token` (falsy services are returned).
+   */
   getOrThrow<T>(token: ServiceToken<T>): T;
+
+  /**
+   * Register (or replace) the service under `token` and notify {@link Services.onChange} listeners.
+   * @throws {Error} If the registry has been disposed.
+   */
   set<T>(token: ServiceToken<T>, service: T): void;
+
+  /** Whether a service is registered under `token`, here or in a parent registry. */
   has<T>(token: ServiceToken<T>): boolean;
+
+  /**
+   * Unregister the service under `token`, calling its `dispose()` if it has one.
+   *
+   * @remarks
+   * Only this registry's own services are removed; a child cannot delete its parent's.
+   * @returns `true` if a service was removed.
+   */
+  delete<T>(token: ServiceToken<T>): boolean;
+
+  /**
+   * Call `fn` whenever the service visible under `token` is set, replaced or removed
+   * (with `undefined` once nothing is registered).
+   *
+   * @remarks
+   * Use it to rebind cached references when a provider re-publishes its service.
+   * Listeners of a child registry also hear parent changes it doesn't shadow.
+   * @returns Function to stop listening.
+   *
+   * @example
+   * ```ts
+   * let draw = ctx.services.getOrThrow(DRAW_ALL)
+   * ctx.services.onChange(DRAW_ALL, d => { if (d) draw = d })
+   * ```
+   */
+  onChange<T>(token: ServiceToken<T>, fn: (service: T | undefined) => void): () => void;
+
+  /**
+   * Create a child registry (e.g. per scene or per test).
+   *
+   * @remarks
+   * The child shares `time`, `assets` and `rng`, resolves tokens it doesn't have
+   * from this registry, and registers its own services locally.
+   */
+  child(): Services;
+
+  /**
+   * Remove every service registered directly in this registry (calling their `dispose()`,
+   * newest first) and detach it from its parent. The parent is not affected.
+   */
+  dispose(): void;
+
+  /**
+   * Resolve once a service is registered under `token`.
+   * Resolves immediately if it already is.
+   *
+   * @example
+   * ```ts
+   * async start(ctx) {
+   *   const surface = await ctx.services.waitFor(INPUT_SURFACE)
+   * }
+   * ```
+   */
+  waitFor<T>(token: ServiceToken<T>): Promise<T>;
+}
+
+/**
+ * Resources owned by one module, released together when the module is removed,
+ * restarted, or the engine stops.
+ *
+ * @remarks
+ * Bus subscriptions and services registered through a module's {@link GameContext}
+ * are tracked automatically; use the scope for everything else (DOM listeners,
+ * real-time timers, arbitrary cleanup). Cleanups run in reverse registration order
+ * after the module's `destroy()`. Registering on a disposed scope cleans up immediately.
+ *
+ * @example
+ * ```ts
+ * init(ctx) {
+ *   ctx.scope.listen(window, 'keydown', e => pressed.add(e.key))
+ *   ctx.scope.setInterval(() => autosave(), 30_000)
+ *   ctx.scope.defer(() => socket.close())
+ * }
+ * ```
+ */
+export interface Scope {
+  /** Id of the owning module (`"engine"` for the engine's own context). */
+  readonly id: string;
+
+  /** `true` once {@link Scope.dispose} has run. */
+  readonly disposed: boolean;
+
+  /**
+   * Run `fn` when the scope is disposed.
+   * @returns Function that runs `fn` right away (at most once) and stops tracking it.
+   */
+  defer(fn: () => void): () => void;
+
+  /**
+   * `addEventListener` that is removed when the scope is disposed.
+   * @returns Function to remove the listener early.
+   */
+  listen<K extends keyof WindowEventMap>(
+    target: Window, type: K, handler: (e: WindowEventMap[K]) => void, opts?: AddEventListenerOptions
+  ): () => void;
+  listen<K extends keyof DocumentEventMap>(
+    target: Document, type: K, handler: (e: DocumentEventMap[K]) => void, opts?: AddEventListenerOptions
+  ): () => void;
+  listen<K extends keyof HTMLElementEventMap>(
+    target: HTMLElement, type: K, handler: (e: HTMLElementEventMap[K]) => void, opts?: AddEventListenerOptions
+  ): () => void;
+  listen(
+    target: EventTarget, type: string, handler: (e: Event) => void, opts?: AddEventListenerOptions
+  ): () => void;
+
+  /**
+   * Real-time `setTimeout`, cleared when the scope is disposed.
+   * Use the scheduler service for simulation timers.
+   * @returns Function to cancel the timeout.
+   */
+  setTimeout(fn: () => void, ms: number): () => void;
+
+  /**
+   * Real-time `setInterval`, cleared when the scope is disposed.
+   * @returns Function to cancel the interval.
+   */
+  setInterval(fn: () => void, ms: number): () => void;
+
+  /**
+   * Run every pending cleanup, newest first. A throwing cleanup is logged and
+   * does not stop the others. Safe to call more than once.
+   */
+  dispose(): void;
 }
 
 /**
@@ -328,6 +1004,10 @@ export interface Services {
  * @remarks
  * This is the primary way modules interact with the engine and each other
  * (via the {@link EventBus} and {@link Services} registry).
+ *
+ * Each module receives its own context: `bus` and `services` are views of the
+ * shared ones that remember the module's subscriptions and registrations, and
+ * `scope` releases them (plus anything registered on it) when the module goes away.
  */
 export type GameContext = {
   /**
@@ -344,6 +1024,11 @@ export type GameContext = {
    * Shared service registry (time, assets, custom services).
    */
   services: Services;
+
+  /**
+   * Resources owned by the module receiving this context.
+   */
+  scope: Scope;
 };
 
 export type PanelId = BodyId;
@@ -0,0 +1,3 @@
+export * from './spatial'
+export * from './sprite'
+export * from './tags'
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { defineComponent } from "../Component";
+import type { BodyId, Transform } from "../primitives";
+
+/** World position (meters, y-up) and angle (radians CCW). Synced from {@link BODY} after each physics step. */
+export const TRANSFORM = defineComponent<Transform>('Transform');
+
+/** Physics body owned by the entity; removed from the world when the entity or component goes. */
+export const BODY = defineComponent<BodyId>('Body');
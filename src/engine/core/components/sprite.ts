@@ -0,0 +1,25 @@
+import { defineComponent } from "../Component";
+import type { Animator } from "../../../util/animator";
+
+/**
+ * An image drawn at the entity's {@link TRANSFORM} (centered, rotated with it).
+ */
+export type Sprite = {
+  image: HTMLImageElement
+  /** Source rect in pixels (default: the whole image, or the {@link ANIMATOR} frame). */
+  src?: { sx: number; sy: number; sw: number; sh: number }
+  /** World meters per source pixel (default `1 / camera.ppm`, pixel-perfect at zoom 1). */
+  scale?: number
+  /** Mirror horizontally. */
+  flipX?: boolean
+  /** Render pass (default `'world'`). */
+  pass?: string
+  /** Order within the pass (default 0). */
+  z?: number
+  alpha?: number
+}
+
+export const SPRITE = defineComponent<Sprite>('Sprite');
+
+/** Sprite-sheet animation (`Animator` from `util/animator`), advanced every fixed step; its frame overrides {@link Sprite.src}. */
+export const ANIMATOR = defineComponent<Animator>('Animator');
@@ -0,0 +1,4 @@
+import { defineComponent } from "../Component";
+
+/** Free-form labels (`'crate'`, `'enemy'`); filter query results with `tags.includes(...)`. */
+export const TAGS = defineComponent<string[]>('Tags');
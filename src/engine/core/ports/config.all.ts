@@ -0,0 +1,62 @@
+import type { ConfigSection, ConfigShape, ConfigValue } from '../Config'
+
+/** Where a resolved field value came from, lowest precedence first. */
+export type ConfigSource = 'default' | 'code' | 'file' | 'query' | 'override'
+
+/**
+ * Layered runtime configuration, published by the config module.
+ *
+ * @remarks
+ * Every field resolves, from lowest to highest precedence, from the section defaults,
+ * the `base` passed by code, the JSON config file, URL query parameters
+ * (`?<section>.<field>=<value>`) and persisted overrides (localStorage).
+ * Values from the file, URL and overrides are converted to the field's type and checked
+ * against its constraints; invalid ones are reported and ignored.
+ *
+ * @example
+ * ```ts
+ * const config = ctx.services.get(CONFIG)
+ * const settings = config?.get(DEBUG_OVERLAY_CONFIG, opts) ?? { ...DEBUG_OVERLAY_CONFIG.defaults, ...opts }
+ * config?.watch(DEBUG_OVERLAY_CONFIG, (now, before) => { if (now.hotkey !== before.hotkey) rebind(now.hotkey) }, opts)
+ * ```
+ */
+export interface ConfigPort {
+  /**
+   * Resolved values of `section`.
+   * @param base - Values chosen in code (e.g. module options); they beat the defaults
+   * but not the file, URL or overrides.
+   */
+  get<T extends ConfigShape>(section: ConfigSection<T>, base?: Partial<T>): Readonly<T>
+
+  /**
+   * Call `fn` whenever a layer change alters the resolved values of `section`.
+   * @param base - Values chosen in code, as for {@link ConfigPort.get}; `fn` receives the
+   * values resolved with them, so it can apply `value` as is.
+   * @returns A function that stops watching.
+   */
+  watch<T extends ConfigShape>(
+    section: ConfigSection<T>,
+    fn: (value: Readonly<T>, prev: Readonly<T>) => void,
+    base?: Partial<T>
+  ): () => void
+
+  /** Override fields of a section (by key, or by name for tools), persisting them when storage is available. */
+  set<T extends ConfigShape>(section: ConfigSection<T>, patch: Partial<T>): void
+  set(section: string, patch: Record<string, ConfigValue>): void
+
+  /** Drop the overrides of one section (or all), falling back to the lower layers. */
+  reset(section?: ConfigSection<ConfigShape> | string): void
+
+  /**
+   * Load a JSON config file (`{ "<section>": { "<field>": value } }`) as the file layer,
+   * replacing the previous one.
+   * @throws Rejects if the file can't be fetched or parsed.
+   */
+  load(url: string): Promise<void>
+
+  /** Source of every field of `section`, for diagnostics. */
+  sources<T extends ConfigShape>(section: ConfigSection<T>): { [K in keyof T]: ConfigSource }
+
+  /** Sections read or watched so far. */
+  sections(): ConfigSection<ConfigShape>[]
+}
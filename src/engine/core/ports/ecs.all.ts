@@ -0,0 +1,88 @@
+import type { ComponentType } from '../Component'
+import type { GameContext, UpdatePhase } from '../Types'
+import type { EntityId } from '../primitives'
+
+/** Value types of a list of component types. */
+export type ComponentValues<C extends readonly ComponentType<any>[]> = {
+  [K in keyof C]: C[K] extends ComponentType<infer T> ? T : never
+}
+
+/** A component value paired with its type, for {@link EcsPort.create}. */
+export type ComponentInit<T = any> = [type: ComponentType<T>, value: T]
+
+/**
+ * A system: a function run over the world once per fixed step.
+ */
+export type SystemSpec = {
+  /** For profiling and error messages. */
+  name?: string
+  /** Fixed-step phase to run in (default `'update'`). */
+  phase?: UpdatePhase
+  /** Lower runs first within the phase (default 0); ties keep registration order. */
+  order?: number
+  run(world: EcsPort, dt: number, ctx: GameContext): void
+}
+
+/**
+ * Entity-component-system world, published by the ECS module.
+ *
+ * @remarks
+ * - Entities are ids; components are plain values keyed by a {@link ComponentType}.
+ * - Queries iterate a snapshot of matching entities, so creating, destroying or
+ *   changing components inside the loop is safe.
+ * - Entities and systems registered with an `owner` go away when the module with that
+ *   id is removed (including scene modules when their scene exits).
+ */
+export interface EcsPort {
+  /** Create an entity, optionally with components. */
+  create(components?: ComponentInit[], owner?: string): EntityId
+
+  /** Destroy an entity and all its components (`onRemove` handlers run). No-op if already gone. */
+  destroy(e: EntityId): void
+
+  /** `true` until the entity is destroyed. */
+  alive(e: EntityId): boolean
+
+  /**
+   * Set a component value, replacing any previous one.
+   * @throws {Error} If the entity doesn't exist.
+   */
+  add<T>(e: EntityId, type: ComponentType<T>, value: T): void
+
+  /** Remove a component (`onRemove` handlers run). @returns `false` if it wasn't there. */
+  remove(e: EntityId, type: ComponentType<any>): boolean
+
+  get<T>(e: EntityId, type: ComponentType<T>): T | undefined
+
+  /**
+   * Like {@link EcsPort.get}, but throws when missing.
+   * @throws {Error} If the entity has no such component.
+   */
+  getOrThrow<T>(e: EntityId, type: ComponentType<T>): T
+
+  has(e: EntityId, type: ComponentType<any>): boolean
+
+  /** Entities having every component in `types`, with their values in the same order. */
+  query<C extends ComponentType<any>[]>(...types: C): Iterable<[EntityId, ...ComponentValues<C>]>
+
+  /** First entity having every component in `types`, or `undefined`. */
+  first<C extends ComponentType<any>[]>(...types: C): [EntityId, ...ComponentValues<C>] | undefined
+
+  /**
+   * Run `fn` whenever a component of `type` is removed (directly or by destroying its entity).
+   * @returns A function that removes the handler.
+   */
+  onRemove<T>(type: ComponentType<T>, fn: (value: T, e: EntityId) => void): () => void
+
+  /**
+   * Schedule a system in the fixed step.
+   * @returns A function that unregisters it.
+   */
+  system(spec: SystemSpec, owner?: string): () => void
+
+  /** Destroy every entity and unregister every system registered with `owner`. */
+  clearOwner(owner: string): void
+
+  /** Number of live entities. */
+  readonly size: number
+}
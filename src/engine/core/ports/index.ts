@@ -9,4 +9,17 @@ export type { RenderQueueReadPort } from './renderqueue.read'
 export type { RenderQueueWritePort } from './renderqueue.write'
 export type { RenderQueuePort } from './renderqueue.all'
 export type { InputReadPort } from './input.read'
-export type { InputSurfacePort } from './inputsurface.all'
\ No newline at end of file
+export type { InputSurfacePort } from './inputsurface.all'
+export type { ScenePort } from './scenes.all'
+export type { InputReplayPort, ReplayFile, ReplayEvent } from './inputreplay.all'
+export type { ProfilerPort, ProfileStats } from './profiler.all'
+export type { SchedulerPort, TimerHandle, UpdateGroup, Coroutine, YieldInstruction } from './scheduler.all'
+export type { TweenPort, Tween, TweenNode, TweenSpec, TweenGroupSpec, TweenTiming, TweenValues } from './tween.all'
+export type { SavePort, SaveContributor, SaveFile, SaveStorage } from './save.all'
+export type { SimulationPort } from './simulation.all'
+export type { RollbackPort, RollbackTransport, RollbackMessage } from './rollback.all'
+export type { EcsPort, SystemSpec, ComponentInit, ComponentValues } from './ecs.all'
+export type { PrefabPort, PrefabDef, PrefabShape, PrefabContext } from './prefab.all'
+export type { LoggerPort, LogChannel, LogLevel, LogFields, LogRecord, LogSink, MemoryLogSink } from './log.all'
+export type { StorePort, Atom, ReadableAtom, StateListener, StateSource, StateValues } from './store.all'
+export type { ConfigPort, ConfigSource } from './config.all'
\ No newline at end of file
@@ -0,0 +1,49 @@
+import type { GameEventType, RngSnapshot } from "../Types"
+
+/**
+ * One recorded input event: `[tick, type, payload]`.
+ * `tick` is relative to the start of the recording.
+ */
+export type ReplayEvent = [tick: number, type: GameEventType, payload: Record<string, unknown>]
+
+/**
+ * A compact, JSON-serializable input recording.
+ */
+export interface ReplayFile {
+  /** Format version. */
+  version: 1
+  /** Fixed step (seconds) the recording was made with; playback requires the same. */
+  fixedStep: number
+  /** RNG state at the first recorded tick; restored on playback. */
+  rng: RngSnapshot
+  /** Number of fixed ticks covered by the recording. */
+  ticks: number
+  /** Input events in tick order. */
+  events: ReplayEvent[]
+}
+
+/**
+ * Record `input/*` bus events per fixed tick and play them back deterministically.
+ *
+ * @remarks
+ * - While playing, live input modules stop emitting and recorded events are
+ *   injected at the same ticks instead.
+ * - Simulation state (physics bodies, gameplay) is not part of the file: start
+ *   recording and playback from the same state, e.g. on entering a scene.
+ */
+export interface InputReplayPort {
+  /** Current mode. */
+  readonly state: "idle" | "recording" | "playing"
+
+  /** Start recording from the next fixed tick (stops any playback). */
+  record(): void
+
+  /** Stop recording and return the file. Throws if not recording. */
+  stopRecording(): ReplayFile
+
+  /** Play a recording from the next fixed tick; restores its RNG state. */
+  play(file: ReplayFile): void
+
+  /** Stop recording or playback without producing a file. */
+  stop(): void
+}
@@ -0,0 +1,102 @@
+/**
+ * Severity of a log record, lowest first.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured key/value data attached to a record (ids, counts, an `error`...).
+ */
+export type LogFields = Record<string, unknown>
+
+/**
+ * One log entry, as handed to every {@link LogSink}.
+ */
+export interface LogRecord {
+  /** Increasing sequence number. */
+  seq: number
+  /** Engine clock (`time.now()`, ms) when logged. */
+  time: number
+  /** Fixed tick (`time.tick`) when logged. */
+  tick: number
+  level: LogLevel
+  /** Channel name, usually a module id (`"physics/2d"`, `"engine"`). */
+  channel: string
+  message: string
+  fields?: LogFields
+}
+
+/**
+ * Destination for log records (console, ring buffer, network...).
+ */
+export interface LogSink {
+  /** Receive a record that passed the level filter and rate limit. */
+  write(record: LogRecord): void
+}
+
+/**
+ * Logger bound to one channel.
+ *
+ * @example
+ * ```ts
+ * const log = ctx.services.get(LOGGER)?.channel('race')
+ * log?.warn('checkpoint skipped', { lap, checkpoint: id })
+ * ```
+ */
+export interface LogChannel {
+  readonly name: string
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  /** Whether records of `level` on this channel are currently kept (skip costly formatting otherwise). */
+  enabled(level: LogLevel): boolean
+  /** Sub-channel `"<name>/<sub>"`. */
+  child(sub: string): LogChannel
+}
+
+/**
+ * Structured logger, published by the logger module.
+ *
+ * @remarks
+ * - Records below the channel's level are dropped before reaching any sink.
+ * - Repeats of the same channel + message beyond the rate limit are counted, and the
+ *   count is reported with the next one that gets through.
+ * - The most recent records are kept in {@link LoggerPort.history} for the debug panel and export.
+ */
+export interface LoggerPort {
+  /** Minimum level for channels without their own (see {@link LoggerPort.setLevel}). */
+  level: LogLevel
+
+  /** Logger for `name`; the same name returns the same channel. */
+  channel(name: string): LogChannel
+
+  /** Log on `channel` without holding a {@link LogChannel}. */
+  log(level: LogLevel, channel: string, message: string, fields?: LogFields): void
+
+  /** Override the minimum level of one channel (and its sub-channels); `undefined` clears it. */
+  setLevel(channel: string, level: LogLevel | undefined): void
+
+  /**
+   * Add a sink.
+   * @returns Function to remove it.
+   */
+  addSink(sink: LogSink): () => void
+
+  /** Recent records, kept for the debug panel and {@link MemoryLogSink.export}. */
+  readonly history: MemoryLogSink
+
+  /** Names of every channel that has logged so far. */
+  channels(): string[]
+}
+
+/**
+ * Ring buffer of the most recent records.
+ */
+export interface MemoryLogSink extends LogSink {
+  /** Records oldest first, optionally only those at `level` or above and on `channel` (or its sub-channels). */
+  records(filter?: { level?: LogLevel; channel?: string }): LogRecord[]
+  /** Forget every record. */
+  clear(): void
+  /** The records as a JSON array (errors serialized with name, message and stack). */
+  export(): string
+}
@@ -0,0 +1,115 @@
+import type { ComponentType } from '../Component'
+import type { EntityId, Material, Vec2 } from '../primitives'
+
+/**
+ * Collision shape in a prefab; lengths are in the prefab's {@link PrefabDef.units}.
+ */
+export type PrefabShape =
+  | { type: 'box'; hx: number; hy: number; offset?: Vec2; angle?: number }
+  | { type: 'circle'; radius: number; offset?: Vec2 }
+  | { type: 'capsule'; halfHeight: number; radius: number; offset?: Vec2; angle?: number }
+
+/**
+ * A reusable object template, as written in JSON.
+ *
+ * @remarks
+ * Every field is optional so a prefab can extend another one and override parts of it.
+ * Objects merge deeply; arrays (shapes, tags) replace the inherited ones and `null`
+ * removes an inherited value (e.g. `"components": { "mover": null }`).
+ */
+export interface PrefabDef {
+  /** Name of the prefab this one is based on. */
+  extends?: string
+
+  /** Units for lengths (shape sizes and offsets): meters (default) or pixels at the camera's ppm. */
+  units?: 'm' | 'px'
+
+  /** Physics body: the physics-2d body options without position/angle (given at spawn). */
+  body?: {
+    type?: 'dynamic' | 'kinematic' | 'static'
+    linearDamping?: number
+    angularDamping?: number
+    gravityScale?: number
+    fixedRotation?: boolean
+    bullet?: boolean
+    allowSleep?: boolean
+    /** `material` is a `Materials` name from `util/material` or a literal material. */
+    shapes?: { shape: PrefabShape; material?: string | Material }[]
+    /** Material for shapes without their own, so derived prefabs can change it without repeating shapes. */
+    material?: string | Material
+    /** Default: `{ entity, tags }`. */
+    userData?: unknown
+  }
+
+  /** Visual: an image asset, optionally animated with a sprite sheet clip. */
+  sprite?: {
+    /** Asset key. */
+    image?: string
+    /** URL to load the image from under `image`, if it isn't loaded yet. */
+    url?: string
+    /** Sprite sheet JSON URL (`util/spritesheet`); adds an `Animator`. */
+    sheet?: string
+    /** Initial clip (required with `sheet`). */
+    clip?: string
+    /** Screen pixels per image pixel at zoom 1 (default 1). */
+    scale?: number
+    flipX?: boolean
+    pass?: string
+    z?: number
+  }
+
+  /** Labels stored in the `TAGS` component. */
+  tags?: string[]
+
+  /** Gameplay components by registered name (see {@link PrefabPort.component}). */
+  components?: Record<string, unknown>
+}
+
+/**
+ * What a component parser gets besides its own JSON.
+ */
+export type PrefabContext = {
+  /** Prefab being spawned. */
+  name: string
+  /** The fully resolved definition (inheritance and overrides applied). */
+  def: PrefabDef
+  /** Convert a length in the prefab's units to meters. */
+  toMeters(n: number): number
+}
+
+/**
+ * Prefab registry and spawner, published by the prefab module.
+ */
+export interface PrefabPort {
+  /** Add or replace prefabs. */
+  define(defs: Record<string, PrefabDef>): void
+
+  /**
+   * Define prefabs from a JSON URL (or an object) and preload the images and sprite sheets they use.
+   * @throws {Error} If the JSON or an asset fails to load.
+   */
+  load(source: string | Record<string, PrefabDef>): Promise<void>
+
+  /**
+   * Make a component usable in {@link PrefabDef.components} under `name` (default `type.name`).
+   * @param parse - Turn the JSON value into the component value (default: use it as is).
+   */
+  component<T>(type: ComponentType<T>, parse?: (json: any, prefab: PrefabContext) => T, name?: string): void
+
+  /**
+   * The definition of `name` with inheritance and `overrides` applied.
+   * @throws {Error} If `name` (or a prefab it extends) is unknown, or `extends` forms a cycle.
+   */
+  resolve(name: string, overrides?: PrefabDef): PrefabDef
+
+  /**
+   * Create an entity from a prefab at `at` (meters, y-up), with its body, sprite, tags and components.
+   * @throws {Error} If the prefab can't be resolved, uses an unregistered component or an asset that isn't loaded.
+   */
+  spawn(name: string, at: Vec2 & { angle?: number }, overrides?: PrefabDef, owner?: string): EntityId
+
+  has(name: string): boolean
+
+  /** Names of all defined prefabs. */
+  names(): string[]
+}
@@ -0,0 +1,55 @@
+/**
+ * Summary of one profiler series over its retained history.
+ */
+export interface ProfileStats {
+  /** Value for the most recent completed frame. */
+  last: number
+  /** Mean over the retained frames. */
+  avg: number
+  /** Smallest value over the retained frames. */
+  min: number
+  /** Largest value over the retained frames. */
+  max: number
+}
+
+/**
+ * Frame profiler, published by the profiler module.
+ *
+ * @remarks
+ * - Samples are grouped into named series (e.g. `update:physics/2d`, `pass:world`).
+ * - Values recorded for the same series within one frame are summed, so a module
+ *   updated three times in a frame reports its total cost for that frame.
+ * - The engine calls {@link ProfilerPort.beginFrame} / {@link ProfilerPort.endFrame}
+ *   and times every module's update and render phases; other modules add their own
+ *   series with {@link ProfilerPort.measure}.
+ * - Series built in by the engine: `frame` (ms), `frame:updates` (fixed steps) and
+ *   `<phase>:<moduleId>` (ms), e.g. `update:demo/bouncy` or `postRender:render/coordinator`.
+ */
+export interface ProfilerPort {
+  /** When `false`, nothing is recorded and `measure` just calls `fn`. */
+  enabled: boolean
+
+  /** Start collecting samples for a new frame. */
+  beginFrame(): void
+
+  /** Close the current frame and append one value per known series to its history. */
+  endFrame(): void
+
+  /** Add `value` (ms, or any unit) to `series` for the current frame. */
+  record(series: string, value: number): void
+
+  /** Run `fn`, add its duration in ms to `series`, and return its result. */
+  measure<T>(series: string, fn: () => T): T
+
+  /** Names of all series seen so far. */
+  series(): string[]
+
+  /** Per-frame values of `series`, oldest first. */
+  history(series: string): readonly number[]
+
+  /** Stats for `series`, or `undefined` if nothing was recorded yet. */
+  stats(series: string): ProfileStats | undefined
+
+  /** Forget all series and history. */
+  reset(): void
+}
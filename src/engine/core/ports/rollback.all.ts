@@ -0,0 +1,49 @@
+/**
+ * One player's input for one fixed step, as sent between peers.
+ */
+export type RollbackMessage<I = unknown> = {
+  player: string
+  tick: number
+  input: I
+}
+
+/**
+ * Carries input messages between peers (WebRTC data channel, WebSocket relay, loopback...).
+ *
+ * @remarks
+ * Delivery may be late or out of order; the rollback module corrects for both.
+ * Lost messages are not re-sent, so use a reliable channel.
+ */
+export interface RollbackTransport<I = unknown> {
+  send(msg: RollbackMessage<I>): void
+  /** @returns A function that removes the handler. */
+  onMessage(fn: (msg: RollbackMessage<I>) => void): () => void
+}
+
+/**
+ * Per-step player inputs with prediction, published by the rollback module.
+ *
+ * @remarks
+ * Read inputs only from fixed-step phases: they belong to the step being simulated
+ * (`time.tick`). A remote input that hasn't arrived yet is predicted by repeating its
+ * last known value; when the real one differs, the game is rolled back and re-simulated.
+ */
+export interface RollbackPort<I = unknown> {
+  /** This peer's player id. */
+  readonly local: string
+
+  /** All player ids, including {@link RollbackPort.local}. */
+  readonly players: readonly string[]
+
+  /** Input of `player` for the current step; `undefined` before any input is known. */
+  input(player: string): I | undefined
+
+  /** `true` if `player`'s input for the current step is a guess. */
+  predicted(player: string): boolean
+
+  /** Last tick for which every player's input has arrived. */
+  readonly confirmedTick: number
+
+  /** Number of rollbacks and re-simulated steps so far. */
+  readonly stats: { rollbacks: number; resimulated: number }
+}
@@ -0,0 +1,91 @@
+/**
+ * One module's part of a save file.
+ *
+ * @typeParam T - JSON-safe data produced by `serialize`.
+ */
+export interface SaveContributor<T = unknown> {
+  /** Schema version of `T` (default `1`). Bump it when the shape changes and handle old data in `migrate`. */
+  version?: number
+
+  /** Capture the current state. Must return JSON-serializable data. */
+  serialize(): T
+
+  /** Replace the current state with `data` (already migrated to `version`). */
+  deserialize(data: T): void
+
+  /** Upgrade data written with an older schema `from` to the current `version`. */
+  migrate?(data: unknown, from: number): T
+}
+
+/**
+ * A complete save: every contributor's section plus bookkeeping.
+ */
+export interface SaveFile {
+  /** Container format (always `1`). */
+  format: 1
+  /** Game save version (`SaveOptions.version` at the time of saving). */
+  version: number
+  /** `Date.now()` when captured. */
+  savedAt: number
+  /** Fixed tick (`time.tick`) when captured. */
+  tick: number
+  /** Free-form slot info for menus (level name, play time, thumbnail...). */
+  meta?: Record<string, unknown>
+  /** Contributor key → versioned data. */
+  sections: Record<string, { version: number; data: unknown }>
+}
+
+/**
+ * Where save files are kept (localStorage, IndexedDB, memory, a server...).
+ */
+export interface SaveStorage {
+  read(slot: string): Promise<SaveFile | undefined>
+  write(slot: string, file: SaveFile): Promise<void>
+  remove(slot: string): Promise<void>
+  /** Names of all stored slots. */
+  list(): Promise<string[]>
+}
+
+/**
+ * Save-game service, published by the save module.
+ *
+ * @remarks
+ * - Modules register a {@link SaveContributor} under a unique key (usually their id),
+ *   typically in `start()`, and unregister in `destroy()`.
+ * - Sections are restored in registration order; the save module's own `engine`
+ *   section (fixed-step clock and RNG) is always first.
+ * - `load` restores after awaiting storage, i.e. between fixed steps. Call `restore`
+ *   yourself only outside `update` phases.
+ */
+export interface SavePort {
+  /**
+   * Add a contributor.
+   * @returns A function that unregisters it.
+   * @throws {Error} If `key` is already registered.
+   */
+  register<T>(key: string, contributor: SaveContributor<T>): () => void
+
+  /** Capture the current state without writing it anywhere. */
+  capture(meta?: Record<string, unknown>): SaveFile
+
+  /**
+   * Apply a captured or loaded file, running migrations first.
+   * @throws {Error} If the file comes from a newer version, or a section can't be migrated.
+   */
+  restore(file: SaveFile): void
+
+  /** Capture and write to `slot`. */
+  save(slot: string, meta?: Record<string, unknown>): Promise<SaveFile>
+
+  /** Read `slot` and restore it. @returns `false` if the slot is empty. */
+  load(slot: string): Promise<boolean>
+
+  /** Read a slot without restoring it (e.g. to show its `meta`). */
+  peek(slot: string): Promise<SaveFile | undefined>
+
+  /** Delete a slot. */
+  remove(slot: string): Promise<void>
+
+  /** Names of all stored slots. */
+  slots(): Promise<string[]>
+}
@@ -0,0 +1,35 @@
+/**
+ * Scene stack control, published by the scene manager module.
+ *
+ * @remarks
+ * - Scenes are referenced by id; definitions are supplied to the scene manager at construction.
+ * - Transitions are queued and run one at a time, so calling `push` then `pop`
+ *   without awaiting is safe.
+ * - Each returned promise resolves once the transition (including module
+ *   `init`/`start` and scene hooks) has completed. If entering a scene fails, its
+ *   modules are destroyed, its contexts disposed and the scene below resumed if the
+ *   transition paused it; then the promise rejects with the error. A scene whose
+ *   `onExit` throws still exits: the error is logged and the transition completes.
+ */
+export interface ScenePort {
+  /** Enter scene `id` on top of the stack; `data` is passed to its `onEnter`. */
+  push(id: string, data?: unknown): Promise<void>
+
+  /** Exit the top scene and resume the one below it. No-op on an empty stack. */
+  pop(): Promise<void>
+
+  /**
+   * Enter `id` in place of the top scene (a plain push on an empty stack).
+   * @remarks
+   * The new scene's modules and `onEnter` run before the old scene exits, so if entering
+   * fails the stack is left as it was. The scene below is then paused or resumed
+   * according to the new scene's `pauseBelow`.
+   */
+  replace(id: string, data?: unknown): Promise<void>
+
+  /** Id of the top scene, or `undefined` if the stack is empty. */
+  current(): string | undefined
+
+  /** Scene ids from bottom to top. */
+  stack(): readonly string[]
+}
@@ -0,0 +1,73 @@
+/**
+ * Handle to a scheduled timeout, interval, group or coroutine.
+ */
+export interface TimerHandle {
+  /** Stop it. Safe to call more than once; a cancelled coroutine runs its `finally` blocks. */
+  cancel(): void
+
+  /** `false` once cancelled or finished. */
+  readonly active: boolean
+}
+
+/**
+ * What a coroutine may yield (build them with `wait` / `until` from `util/coroutine`).
+ * - nothing: resume on the next fixed step
+ * - `{ wait: seconds }`: resume once that much sim time has passed
+ * - `{ until: cond }`: resume on the first step where `cond()` is true
+ */
+export type YieldInstruction = { wait: number } | { until: () => boolean } | undefined | void
+
+/**
+ * Generator driven by the scheduler. The value received from `yield` is the
+ * sim time (seconds) that passed while it was suspended.
+ */
+export type Coroutine = Generator<YieldInstruction, void, number>
+
+/**
+ * Callbacks sharing one lower update rate, e.g. AI or pathfinding at 10 Hz.
+ */
+export interface UpdateGroup extends TimerHandle {
+  /** Updates per second of sim time. */
+  readonly hz: number
+
+  /** Add a callback; it receives `1 / hz` as `dt`. Cancelling the group cancels all members. */
+  add(fn: (dt: number) => void): TimerHandle
+}
+
+/**
+ * Sim-time scheduler, published by the scheduler module.
+ *
+ * @remarks
+ * - Time only advances with fixed steps, so everything respects `time.paused`
+ *   and `time.scale` and is deterministic (replays, rollback).
+ * - Due callbacks run in due-time order, then creation order, once per step.
+ * - Pass an `owner` (usually the module id) to cancel everything a module
+ *   scheduled when it is removed; see {@link SchedulerPort.cancelOwner}.
+ * - A callback or coroutine that throws is logged and cancelled; the others keep running.
+ */
+export interface SchedulerPort {
+  /** Call `fn` once, `seconds` of sim time from now. */
+  after(seconds: number, fn: () => void, owner?: string): TimerHandle
+
+  /** Call `fn` every `seconds` of sim time (catching up if a step is longer than the interval). */
+  every(seconds: number, fn: (dt: number) => void, owner?: string): TimerHandle
+
+  /** Create an {@link UpdateGroup} ticking `hz` times per second of sim time. */
+  group(hz: number, owner?: string): UpdateGroup
+
+  /**
+   * Start a coroutine. It runs synchronously up to its first `yield`, then is
+   * resumed by the scheduler as its yield instructions allow.
+   */
+  start(co: Coroutine | (() => Coroutine), owner?: string): TimerHandle
+
+  /**
+   * Cancel everything scheduled with this owner.
+   * Called automatically on `engine/moduleRemoved` for the removed module's id.
+   * @returns Number of handles cancelled.
+   */
+  cancelOwner(owner: string): number
+
+  /** Number of active scheduled entries: timeouts, intervals, coroutines and groups (a group counts once, whatever its members). */
+  readonly size: number
+}
@@ -0,0 +1,37 @@
+import type { EngineSnapshot } from '../Types'
+
+/**
+ * Control over the fixed-step simulation, published by the engine itself.
+ *
+ * @remarks
+ * The basis for rollback: capture state every step, and when late information
+ * arrives, restore an older snapshot and re-run the steps since then.
+ * `restore` and `resimulate` may only be called between fixed steps, i.e. from an
+ * {@link SimulationPort.onBeforeStep} callback or outside the engine loop.
+ */
+export interface SimulationPort {
+  /** Capture the clock, RNG and every module implementing `snapshot()`. */
+  snapshot(): EngineSnapshot
+
+  /**
+   * Return to `snapshot` (clock, RNG and module state).
+   * @throws {Error} If called while a fixed step is running.
+   */
+  restore(snapshot: EngineSnapshot): void
+
+  /**
+   * Run `n` fixed steps immediately, with {@link SimulationPort.resimulating} set.
+   * @throws {Error} If called while a fixed step is running.
+   */
+  resimulate(n: number): void
+
+  /** `true` while steps run inside {@link SimulationPort.resimulate}; skip sounds and effects. */
+  readonly resimulating: boolean
+
+  /**
+   * Call `fn(tick)` before every fixed step (including re-simulated ones), outside any
+   * module phase.
+   * @returns A function that removes the callback.
+   */
+  onBeforeStep(fn: (tick: number) => void): () => void
+}
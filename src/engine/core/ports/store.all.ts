@@ -0,0 +1,95 @@
+import type { StateKey } from '../State'
+
+/** Called with the new and previous value after a change. */
+export type StateListener<T> = (value: T, prev: T) => void
+
+/**
+ * A value that can be read and watched.
+ */
+export interface ReadableAtom<T> {
+  get(): T
+  /**
+   * Call `fn` after every change.
+   * @returns A function that unsubscribes.
+   */
+  subscribe(fn: StateListener<T>): () => void
+}
+
+/**
+ * A store value bound to its key, so it can be passed around without the store.
+ */
+export interface Atom<T> extends ReadableAtom<T> {
+  set(value: T): void
+  update(fn: (value: T) => T): void
+}
+
+/** Anything a derived value can depend on. */
+export type StateSource<T> = StateKey<T> | ReadableAtom<T>
+
+/** Value types of a list of {@link StateSource}s. */
+export type StateValues<S extends readonly StateSource<any>[]> = {
+  [K in keyof S]: S[K] extends StateSource<infer T> ? T : never
+}
+
+/**
+ * Observable key/value store for HUD and UI bindings, published by the store module.
+ *
+ * @remarks
+ * - Setting a value equal (`Object.is`) to the current one notifies no one.
+ * - Inside {@link StorePort.batch} notifications are held back and sent once at the end,
+ *   one per changed key with its final value; changes made by listeners are delivered
+ *   in the same pass.
+ * - Subscriptions are not tied to a module: release them in `destroy()` or with
+ *   `ctx.scope.defer(store.subscribe(...))`.
+ *
+ * @example
+ * ```ts
+ * // gameplay
+ * store.batch(() => {
+ *   store.set(LAP_TIME, t)
+ *   store.update(LAP, n => n + 1)
+ * })
+ *
+ * // HUD
+ * ctx.scope.defer(store.subscribe(LAP, lap => { label = `Lap ${lap}` }, { immediate: true }))
+ * ```
+ */
+export interface StorePort {
+  /** Current value, or the key's `initial` if nothing was set. */
+  get<T>(key: StateKey<T>): T
+
+  /** Publish `value` under `key`. */
+  set<T>(key: StateKey<T>, value: T): void
+
+  /** Publish `fn(current)` under `key`. */
+  update<T>(key: StateKey<T>, fn: (value: T) => T): void
+
+  /**
+   * Call `fn` after every change of `key`.
+   * @param opts - `immediate`: also call it right away with the current value (`prev` is the same value).
+   * @returns A function that unsubscribes.
+   */
+  subscribe<T>(key: StateKey<T>, fn: StateListener<T>, opts?: { immediate?: boolean }): () => void
+
+  /** Handle for one key. */
+  atom<T>(key: StateKey<T>): Atom<T>
+
+  /**
+   * A value computed from keys and other atoms.
+   *
+   * @remarks
+   * `compute` must be cheap and pure: it runs on every `get()` and, while the derived
+   * value has subscribers, whenever a dependency changes. Subscribers are only
+   * called when the result changes.
+   */
+  derive<S extends StateSource<any>[], T>(deps: [...S], compute: (...values: StateValues<S>) => T): ReadableAtom<T>
+
+  /** Run `fn`, holding notifications until it returns (batches nest). */
+  batch<R>(fn: () => R): R
+
+  /** Put `key` (or every key) back to its initial value, notifying subscribers. */
+  reset(key?: StateKey<unknown>): void
+
+  /** Name and current value of every key that was set or subscribed to. */
+  entries(): [name: string, value: unknown][]
+}
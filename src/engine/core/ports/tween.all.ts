@@ -0,0 +1,108 @@
+/** Numeric properties animated by a tween, e.g. `{ x: 0, y: 0 }` or `{ zoom: 1 }`. */
+export type TweenValues = Record<string, number>
+
+/**
+ * Timing options shared by single tweens and groups.
+ */
+export interface TweenTiming {
+  /** Seconds of sim time to wait before starting (default `0`). */
+  delay?: number
+
+  /** Extra plays after the first; `Infinity` loops forever (default `0`). */
+  repeat?: number
+
+  /** Play every other repetition backwards (default `false`). */
+  yoyo?: boolean
+
+  /** Called when this tween or group finishes (after its repeats); inside a repeating group, once per cycle. */
+  onComplete?(): void
+
+  /** If set, `tween/complete { name }` is emitted on the bus whenever `onComplete` would run. */
+  name?: string
+}
+
+/**
+ * Animate `from` → `to` over `duration` seconds, feeding values to `onUpdate`.
+ */
+export interface TweenSpec<T extends TweenValues = TweenValues> extends TweenTiming {
+  from: T
+  to: T
+  /** Seconds of sim time; `0` jumps straight to `to`. */
+  duration: number
+  /** Easing curve, e.g. `Easing.sineInOut` from `util/easing` (default linear). */
+  ease?: (t: number) => number
+  /**
+   * Receives the interpolated values (the same object every call) and linear progress 0..1.
+   * Use a sink such as `cameraSink` / `kinematicSink` from `util/tween`, or your own setter.
+   */
+  onUpdate(values: T, progress: number): void
+}
+
+/**
+ * Run children one after another (`sequence`) or all at once (`parallel`).
+ */
+export type TweenGroupSpec = TweenTiming & (
+  | { sequence: TweenNode[]; parallel?: never }
+  | { parallel: TweenNode[]; sequence?: never }
+)
+
+/** A single tween or a group of them. */
+export type TweenNode = TweenSpec<any> | TweenGroupSpec
+
+/**
+ * A playing tween (or group).
+ */
+export interface Tween {
+  /** Stop where it is; no further updates or callbacks. */
+  cancel(): void
+
+  /** `false` once cancelled or completed. */
+  readonly active: boolean
+
+  /** Seconds of sim time since `play`. */
+  readonly elapsed: number
+
+  /** Total length in seconds including delays and repeats (`Infinity` for endless loops). */
+  readonly duration: number
+
+  /**
+   * Jump to `elapsed` seconds (e.g. when restoring a save) and apply the values there.
+   * Completion callbacks of any boundary crossed still fire. No-op once inactive.
+   */
+  seek(elapsed: number): void
+}
+
+/**
+ * Tween playback, published by the tween module.
+ *
+ * @remarks
+ * - Tweens advance with fixed steps, so they respect `time.paused` / `time.scale`
+ *   and reproduce exactly in replays.
+ * - Values are sampled from elapsed time (not accumulated), so long or repeating tweens don't drift.
+ * - A tween whose `onUpdate` or `onComplete` throws is logged and cancelled.
+ *
+ * @example
+ * ```ts
+ * tweens.play({
+ *   sequence: [
+ *     { from: { zoom: 1 }, to: { zoom: 1.5 }, duration: 0.4, ease: Easing.cubicOut, onUpdate: cameraSink(camera) },
+ *     { from: { zoom: 1.5 }, to: { zoom: 1 }, duration: 0.4, delay: 1, onUpdate: cameraSink(camera) },
+ *   ],
+ *   name: 'intro-zoom',
+ * }, 'game/intro')
+ * ```
+ */
+export interface TweenPort {
+  /**
+   * Start playing a tween or group.
+   * @param owner - Optional owner id; everything it owns is cancelled on `engine/moduleRemoved`.
+   * @throws {Error} If `from`/`to` keys differ, or an endless loop has zero length.
+   */
+  play(node: TweenNode, owner?: string): Tween
+
+  /** Cancel every tween started with this owner. @returns Number cancelled. */
+  cancelOwner(owner: string): number
+
+  /** Number of playing tweens. */
+  readonly size: number
+}
@@ -6,4 +6,11 @@
  * - Use `BodyId` instead of `number` when dealing with body IDs.
  * - This prevents accidental mixing of different ID types.
  */
-export type BodyId = number & { readonly brand: unique symbol }
\ No newline at end of file
+export type BodyId = number & { readonly brand: unique symbol }
+/**
+ * A branded type for ECS entity IDs.
+ *
+ * @remarks
+ * Entity ids are never reused within a world, so a stale id simply stops matching.
+ */
+export type EntityId = number & { readonly brand: unique symbol }
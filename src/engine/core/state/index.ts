@@ -0,0 +1 @@
+export * from './loading'
\ No newline at end of file
@@ -0,0 +1,4 @@
+import { defineState } from "../State";
+
+/** Asset loading progress in `[0, 1]`; `1` once nothing is loading. Published by modules that preload. */
+export const LOAD_PROGRESS = defineState<number>('LoadProgress', 1);
@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { ConfigPort } from "../ports";
+
+export const CONFIG = defineToken<ConfigPort>('CONFIG');
@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { EcsPort } from "../ports";
+
+export const ECS = defineToken<EcsPort>('ECS');
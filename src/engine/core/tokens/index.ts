@@ -3,4 +3,17 @@ export * from './draw'
 export * from './camera'
 export * from './renderqueue'
 export * from './input'
-export * from './inputsurface'
\ No newline at end of file
+export * from './inputsurface'
+export * from './scenes'
+export * from './inputreplay'
+export * from './profiler'
+export * from './scheduler'
+export * from './tween'
+export * from './save'
+export * from './simulation'
+export * from './rollback'
+export * from './ecs'
+export * from './prefab'
+export * from './log'
+export * from './store'
+export * from './config'
\ No newline at end of file
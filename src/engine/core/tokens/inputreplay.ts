@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { InputReplayPort } from "../ports";
+
+export const INPUT_REPLAY = defineToken<InputReplayPort>('INPUT_REPLAY');
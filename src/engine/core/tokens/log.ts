@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { LoggerPort } from "../ports";
+
+export const LOGGER = defineToken<LoggerPort>('LOGGER');
@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { PrefabPort } from "../ports";
+
+export const PREFABS = defineToken<PrefabPort>('PREFABS');
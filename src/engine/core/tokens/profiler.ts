@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { ProfilerPort } from "../ports";
+
+export const PROFILER = defineToken<ProfilerPort>('PROFILER');
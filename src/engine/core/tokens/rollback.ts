@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { RollbackPort } from "../ports";
+
+export const ROLLBACK = defineToken<RollbackPort>('ROLLBACK');
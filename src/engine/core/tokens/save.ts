@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { SavePort } from "../ports";
+
+export const SAVE = defineToken<SavePort>('SAVE');
@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { ScenePort } from "../ports";
+
+export const SCENES = defineToken<ScenePort>('SCENES');
@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { SchedulerPort } from "../ports";
+
+export const SCHEDULER = defineToken<SchedulerPort>('SCHEDULER');
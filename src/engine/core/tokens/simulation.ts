@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { SimulationPort } from "../ports";
+
+export const SIMULATION = defineToken<SimulationPort>('SIMULATION');
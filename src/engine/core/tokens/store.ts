@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { StorePort } from "../ports";
+
+export const STORE = defineToken<StorePort>('STORE');
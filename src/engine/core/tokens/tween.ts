@@ -0,0 +1,4 @@
+import { defineToken } from "../Token";
+import type { TweenPort } from "../ports";
+
+export const TWEENS = defineToken<TweenPort>('TWEENS');
@@ -9,15 +9,39 @@ import Camera2D from "./modules/camera-2d";
 import RenderCoordinator, { DEFAULT_PASSES } from "./modules/render-coordinator";
 import PointerInput from "./modules/pointer-input";
 import InputState from "./modules/input-state";
+import SceneManager from "./modules/scene-manager";
+import InputReplay from "./modules/input-replay";
+import ErrorOverlay from "./modules/error-overlay";
+import Profiler from "./modules/profiler";
+import Scheduler from "./modules/scheduler";
+import Tweens from "./modules/tween";
+import Save from "./modules/save";
+import Ecs from "./modules/ecs";
+import Prefabs from "./modules/prefab";
+import Logger from "./modules/logger";
+import Store from "./modules/store";
+import Config from "./modules/config";
 
 const mount = document.getElementById("mount")!;
 
 const engine = new Engine({ width: 800, height: 600, mount, targetFPS: 60 })
-  .add(DemoBouncy())
+  .add(Logger())
+  .add(Config({ url: "/config.json" }))
+  .add(InputReplay())
+  .add(Scheduler())
+  .add(Tweens())
+  .add(Save())
+  .add(Store())
+  .add(Ecs())
+  .add(Prefabs())
+  .add(SceneManager({
+    initial: "play",
+    scenes: [
+      { id: "play", modules: () => [DemoBouncy()] },
+    ],
+  }))
   .add(
     DebugOverlayModule({
-      startVisible: false,
-      hotkey: "`",
       margin: { x: 8, y: 14, line: 14 },
     })
   )
@@ -31,6 +55,8 @@ const engine = new Engine({ width: 800, height: 600, mount, targetFPS: 60 })
     clearEachFrame: true,
   }))
   .add(PointerInput())
+  .add(ErrorOverlay())
+  .add(Profiler())
 
 async function run() {
   await engine.init();
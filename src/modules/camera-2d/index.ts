@@ -15,11 +15,16 @@
  * @remarks
  * - The camera service is registered under three tokens: CAMERA_2D, CAMERA_2D_READ (readonly), and CAMERA_2D_WRITE (write-only).
  * - By default, ppm is not changed on DPR changes. To lock scale to CSS pixels, uncomment the provided line in the resize handler.
+ * - When a save service is present, the camera state is saved under the `camera/2d` key.
+ * - Camera state is part of engine snapshots, so rollback re-simulates `follow()` smoothing exactly.
+ * - With the config module, the initial state comes from the `camera/2d` config section
+ *   ({@link CAMERA_2D_CONFIG}), which can override `initial` and is applied live when it changes.
  */
 
 import type { Module, GameContext } from "../../engine/core/Types"
 import type { Camera2D } from "../../engine/core/primitives"
-import { CAMERA_2D, CAMERA_2D_READ, CAMERA_2D_WRITE } from "../../engine/core/tokens"
+import { CAMERA_2D, CAMERA_2D_READ, CAMERA_2D_WRITE, CONFIG, SAVE } from "../../engine/core/tokens"
+import { defineConfig } from "../../engine/core/Config"
 import { createCamera2DService } from './service'
 
 export interface Camera2DModuleConfig {
@@ -27,22 +32,62 @@ export interface Camera2DModuleConfig {
   autoResize?: boolean   // keep ppm stable on DPR/size changes? default: false
 }
 
+/**
+ * Initial camera state that can also come from the config file, URL or overrides
+ * (`?camera/2d.zoom=0.5`); it wins over `initial`, and changes are applied to the live camera.
+ */
+export const CAMERA_2D_CONFIG = defineConfig("camera/2d", {
+  x: 0,
+  y: 0,
+  rotation: 0,
+  zoom: 1,
+  ppm: 50, // 50 px == 1 m
+}, {
+  x: { description: "Initial position x (m)" },
+  y: { description: "Initial position y (m)" },
+  rotation: { description: "Rotation (radians)" },
+  zoom: { description: "Zoom factor", min: 0.01 },
+  ppm: { description: "Pixels per meter", min: 1 },
+})
+
 export default function Camera2D(cfg: Camera2DModuleConfig = {}): Module {
+  let offSave: (() => void) | undefined
+
   return {
     id: "camera/2d",
+    provides: [CAMERA_2D, CAMERA_2D_READ, CAMERA_2D_WRITE],
     async init(ctx: GameContext) {
+      const d = CAMERA_2D_CONFIG.defaults
       const {
-        position = { x: 0, y: 0 },
-        rotation = 0,
-        zoom = 1,
-        ppm = 50, // 50 px == 1 m
+        position = { x: d.x, y: d.y },
+        rotation = d.rotation,
+        zoom = d.zoom,
+        ppm = d.ppm,
       } = cfg.initial ?? {}
+      const base = { x: position.x, y: position.y, rotation, zoom, ppm }
+      const config = ctx.services.get(CONFIG)
+      const initial = config?.get(CAMERA_2D_CONFIG, base) ?? base
 
-      const svc = createCamera2DService({ position, rotation, zoom, ppm })
+      const svc = createCamera2DService({
+        position: { x: initial.x, y: initial.y },
+        rotation: initial.rotation,
+        zoom: initial.zoom,
+        ppm: initial.ppm,
+      })
       ctx.services.set(CAMERA_2D, svc)
       ctx.services.set(CAMERA_2D_READ, svc) // readonly alias
       ctx.services.set(CAMERA_2D_WRITE, svc) // write-only alias
 
+      // Apply only what changed, so e.g. a zoom tweak doesn't snap a following camera back
+      if (config) ctx.scope.defer(config.watch(CAMERA_2D_CONFIG, (now, prev) => {
+        const patch: Partial<Camera2D> = {}
+        if (now.x !== prev.x || now.y !== prev.y) patch.position = { x: now.x, y: now.y }
+        if (now.rotation !== prev.rotation) patch.rotation = now.rotation
+        if (now.zoom !== prev.zoom) patch.zoom = now.zoom
+        if (now.ppm !== prev.ppm) patch.ppm = now.ppm
+        svc.set(patch)
+      }, base))
+
       if (cfg.autoResize) {
         let lastDpr = window.devicePixelRatio || 1
         const onResize = () => {
@@ -57,5 +102,20 @@ export default function Camera2D(cfg: Camera2DModuleConfig = {}): Module {
         window.addEventListener("resize", onResize)
       }
     },
+
+    start(ctx: GameContext) {
+      const svc = ctx.services.getOrThrow(CAMERA_2D)
+      offSave = ctx.services.get(SAVE)?.register<Camera2D>("camera/2d", {
+        serialize: () => svc.get(),
+        deserialize: (cam) => svc.replace(cam),
+      })
+    },
+
+    snapshot: (ctx) => ctx.services.getOrThrow(CAMERA_2D).get(),
+    restore: (ctx, cam) => ctx.services.getOrThrow(CAMERA_2D).replace(cam as Camera2D),
+
+    destroy() {
+      offSave?.()
+    },
   }
 }
@@ -0,0 +1,114 @@
+/**
+ * Config module: layered runtime configuration and feature flags.
+ *
+ * @module modules/config
+ *
+ * @param opts - Optional configuration ({@link ConfigOptions}).
+ * @returns A module publishing the {@link ConfigPort} under `CONFIG`.
+ *
+ * @remarks
+ * - Sections are typed and defined once with `defineConfig(name, defaults, fields)`
+ *   (`engine/core/Config`), next to the module they configure.
+ * - Each field resolves from, lowest precedence first: the section defaults, values passed
+ *   by code (module options), the JSON file at `url`, URL parameters
+ *   (`?debug/overlay.startVisible=1&demo/bouncy.gravity=-3`) and overrides set at runtime
+ *   with `set`, which persist in localStorage until `reset`.
+ * - Values from the file, URL and overrides are converted to the field's type (`1`/`0`
+ *   work for booleans) and checked against `min`, `max` and `options`; invalid ones are
+ *   reported on the `config` log channel and ignored.
+ * - `watch` reports live changes, including overrides made in another tab. Modules that
+ *   can apply a change without a restart should watch their section.
+ * - The "Config" debug panel lists every section in use with each value and its source.
+ * - Add it right after the logger, before the modules that read their sections in `init()`.
+ *
+ * @example
+ * ```ts
+ * engine.add(Config({ url: '/config.json' }))
+ *
+ * // next to a module
+ * export const RACE_CONFIG = defineConfig('race', { laps: 3, ghost: true }, { laps: { min: 1, max: 9 } })
+ *
+ * // in its init()
+ * const config = ctx.services.getOrThrow(CONFIG)
+ * let { laps } = config.get(RACE_CONFIG)
+ * ctx.scope.defer(config.watch(RACE_CONFIG, (now) => { laps = now.laps }))
+ * ```
+ */
+
+import type { Module, DebugPanel } from '../../engine/core/Types'
+import { CONFIG, LOGGER } from '../../engine/core/tokens'
+import { errorReporter } from '../../util/log'
+import { createConfig, type ConfigService } from './service'
+import type { ConfigOptions } from './types'
+
+export type { ConfigOptions } from './types'
+
+export default function Config(opts: ConfigOptions = {}): Module {
+  const {
+    url,
+    query = typeof location === 'undefined' ? '' : location.search,
+    storageKey = 'config:overrides',
+  } = opts
+
+  let config: ConfigService | undefined
+
+  const panel: DebugPanel = {
+    id: -1007 as any,
+    title: 'Config',
+    order: 550,
+    render() {
+      const sections = config?.sections() ?? []
+      if (!sections.length) return ['No config sections in use']
+      return sections.flatMap(section => {
+        const value = config!.get(section)
+        const sources = config!.sources(section)
+        return [
+          `${section.name}`,
+          ...Object.keys(value).map(field => `  ${field}: ${JSON.stringify(value[field])} [${sources[field]}]`),
+        ]
+      })
+    },
+  }
+
+  return {
+    id: 'config',
+    provides: [CONFIG],
+
+    async init(ctx) {
+      const log = ctx.services.get(LOGGER)?.channel('config')
+      const reportError = errorReporter(ctx, 'config')
+      const persist = storageKey !== false && typeof localStorage !== 'undefined'
+      config = createConfig({
+        storage: persist ? localStorage : undefined,
+        storageKey: storageKey || '',
+        warn: (message, fields) => log ? log.warn(message, fields) : console.warn(`Config: ${message}`, fields),
+        onError: reportError,
+      })
+      config.setQuery(query)
+      ctx.services.set(CONFIG, config)
+
+      if (persist && typeof window !== 'undefined') {
+        ctx.scope.listen(window, 'storage', (e) => {
+          if (e.key === storageKey) config?.reloadOverrides()
+        })
+      }
+
+      if (url) {
+        try {
+          await config.load(url)
+        } catch (err) {
+          // A missing or broken file shouldn't stop the game; the other layers still apply
+          reportError('file not loaded', { url, error: err })
+        }
+      }
+    },
+
+    start(ctx) {
+      ctx.bus.emit({ type: 'debug/panel/register', panel })
+    },
+
+    destroy() {
+      config = undefined
+    },
+  }
+}
@@ -0,0 +1,251 @@
+import type { ConfigSection, ConfigShape, ConfigValue } from '../../engine/core/Config'
+import type { ConfigPort, ConfigSource } from '../../engine/core/ports'
+import type { ErrorReporter } from '../../util/log'
+
+/** Raw layer data: section name → field → value (unvalidated). */
+type Layer = Record<string, Record<string, unknown>>
+
+/** The subset of `Storage` the service needs. */
+export type ConfigStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+export type ConfigDeps = {
+  /** Where overrides persist; absent keeps them in memory. */
+  storage?: ConfigStorage
+  /** Key of the persisted overrides in `storage`. */
+  storageKey: string
+  /** Report an invalid value or a storage failure. */
+  warn(message: string, fields: Record<string, unknown>): void
+  /** Report a watcher that threw. */
+  onError: ErrorReporter
+}
+
+/** The {@link ConfigPort} plus the hooks the module uses to feed it. */
+export type ConfigService = ConfigPort & {
+  /** Replace the URL layer with the `<section>.<field>` parameters of `query`. */
+  setQuery(query: string): void
+  /** Re-read persisted overrides, e.g. after another tab changed them. */
+  reloadOverrides(): void
+}
+
+/** A `watch` subscription and the values it last saw. */
+type Watcher = {
+  section: ConfigSection<ConfigShape>
+  base?: Partial<ConfigShape>
+  last: ConfigShape
+  fn: (value: ConfigShape, prev: ConfigShape) => void
+}
+
+/** Layers that come from outside code, highest precedence last. */
+const EXTERNAL: readonly Exclude<ConfigSource, 'default' | 'code'>[] = ['file', 'query', 'override']
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+/** Keep only `{ section: { field: value } }` entries of parsed JSON. */
+function toLayer(data: unknown): Layer {
+  const layer: Layer = {}
+  if (!isRecord(data)) return layer
+  for (const [name, fields] of Object.entries(data)) {
+    if (isRecord(fields)) layer[name] = { ...fields }
+  }
+  return layer
+}
+
+const hasField = (shape: ConfigShape, field: string) =>
+  Object.prototype.hasOwnProperty.call(shape, field)
+
+function shallowEqual(a: ConfigShape, b: ConfigShape) {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every(k => Object.is(a[k], b[k]))
+}
+
+/**
+ * Create the {@link ConfigService}.
+ *
+ * @remarks
+ * Layers hold raw values; they are converted and checked against a section whenever it
+ * is resolved, so a file or URL can mention sections whose modules load later.
+ * Each invalid value is reported once. A watcher that throws is logged and skipped.
+ */
+export function createConfig(deps: ConfigDeps): ConfigService {
+  const layers: Record<(typeof EXTERNAL)[number], Layer> = { file: {}, query: {}, override: {} }
+  /** Sections seen so far, by name. */
+  const known = new Map<string, ConfigSection<ConfigShape>>()
+  const watchers = new Set<Watcher>()
+  /** Messages already reported, so a bad value warns once rather than on every resolve. */
+  const reported = new Set<string>()
+
+  function warnOnce(message: string, fields: Record<string, unknown>) {
+    const id = `${message} ${JSON.stringify(fields)}`
+    if (reported.has(id)) return
+    reported.add(id)
+    deps.warn(message, fields)
+  }
+
+  function remember(section: ConfigSection<ConfigShape>) {
+    const prior = known.get(section.name)
+    if (!prior) known.set(section.name, section)
+    else if (prior !== section) warnOnce('section defined more than once', { section: section.name })
+  }
+
+  /** Convert `raw` to the type of `field` and check its constraints; `undefined` if invalid. */
+  function coerce(section: ConfigSection<ConfigShape>, field: string, raw: unknown, from: ConfigSource) {
+    const where = { section: section.name, field, source: from }
+    if (!hasField(section.defaults, field)) {
+      warnOnce('unknown field', where)
+      return undefined
+    }
+    const type = typeof section.defaults[field]
+    let value: ConfigValue | undefined
+    if (typeof raw === type) value = raw as ConfigValue
+    else if (typeof raw === 'string' && type === 'number' && raw.trim() !== '') value = Number(raw)
+    else if (typeof raw === 'string' && type === 'boolean') {
+      value = raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : undefined
+    }
+    if (value === undefined || (typeof value === 'number' && Number.isNaN(value))) {
+      warnOnce('value has the wrong type', { ...where, value: raw, expected: type })
+      return undefined
+    }
+    const rules = section.fields[field]
+    if (typeof value === 'number' && ((rules?.min ?? -Infinity) > value || value > (rules?.max ?? Infinity))) {
+      warnOnce('value out of range', { ...where, value, min: rules?.min, max: rules?.max })
+      return undefined
+    }
+    if (rules?.options && !rules.options.includes(value)) {
+      warnOnce('value not among the options', { ...where, value, options: rules.options })
+      return undefined
+    }
+    return value
+  }
+
+  function resolve<T extends ConfigShape>(section: ConfigSection<T>, base?: Partial<T>) {
+    remember(section)
+    const value: ConfigShape = { ...section.defaults }
+    const sources: Record<string, ConfigSource> = {}
+    for (const field of Object.keys(value)) sources[field] = 'default'
+    for (const [field, v] of Object.entries(base ?? {})) {
+      if (v === undefined || !hasField(value, field)) continue
+      value[field] = v
+      sources[field] = 'code'
+    }
+    for (const from of EXTERNAL) {
+      for (const [field, raw] of Object.entries(layers[from][section.name] ?? {})) {
+        const v = coerce(section, field, raw, from)
+        if (v === undefined) continue
+        value[field] = v
+        sources[field] = from
+      }
+    }
+    return { value: value as T, sources: sources as { [K in keyof T]: ConfigSource } }
+  }
+
+  /** Re-resolve every watched section (with the watcher's base) and notify the watchers that see a change. */
+  function notify() {
+    for (const w of [...watchers]) {
+      if (!watchers.has(w)) continue
+      const { value } = resolve(w.section, w.base)
+      if (shallowEqual(value, w.last)) continue
+      const prev = w.last
+      w.last = value
+      try {
+        w.fn(value, prev)
+      } catch (err) {
+        deps.onError('watcher threw', { section: w.section.name, error: err })
+      }
+    }
+  }
+
+  function persist() {
+    if (!deps.storage) return
+    try {
+      if (Object.keys(layers.override).length) {
+        deps.storage.setItem(deps.storageKey, JSON.stringify(layers.override))
+      } else {
+        deps.storage.removeItem(deps.storageKey)
+      }
+    } catch (err) {
+      deps.warn('could not persist overrides', { error: err })
+    }
+  }
+
+  function readOverrides(): Layer {
+    try {
+      const raw = deps.storage?.getItem(deps.storageKey) ?? null
+      return raw === null ? {} : toLayer(JSON.parse(raw))
+    } catch (err) {
+      deps.warn('ignoring unreadable overrides', { error: err })
+      return {}
+    }
+  }
+
+  const nameOf = (section: ConfigSection<ConfigShape> | string) =>
+    typeof section === 'string' ? section : section.name
+
+  layers.override = readOverrides()
+
+  const service: ConfigService = {
+    get: (section, base) => resolve(section, base).value,
+
+    watch<T extends ConfigShape>(
+      section: ConfigSection<T>,
+      fn: (value: Readonly<T>, prev: Readonly<T>) => void,
+      base?: Partial<T>
+    ) {
+      const w: Watcher = {
+        section,
+        base,
+        last: resolve(section, base).value,
+        // Values of a section name always resolve against that section's defaults
+        fn: (now, prev) => fn(now as T, prev as T),
+      }
+      watchers.add(w)
+      return () => { watchers.delete(w) }
+    },
+
+    set(section: ConfigSection<ConfigShape> | string, patch: Record<string, ConfigValue>) {
+      if (typeof section !== 'string') remember(section)
+      const name = nameOf(section)
+      layers.override[name] = { ...layers.override[name], ...patch }
+      persist()
+      notify()
+    },
+
+    reset(section) {
+      if (section === undefined) layers.override = {}
+      else delete layers.override[nameOf(section)]
+      persist()
+      notify()
+    },
+
+    async load(url) {
+      const res = await fetch(url)
+      if (!res.ok) throw new Error(`Config: failed to load ${url} (${res.status})`)
+      const data: unknown = await res.json()
+      if (!isRecord(data)) throw new Error(`Config: ${url} must contain a JSON object`)
+      layers.file = toLayer(data)
+      notify()
+    },
+
+    sources: (section) => resolve(section).sources,
+
+    sections: () => [...known.values()],
+
+    setQuery(query) {
+      const layer: Layer = {}
+      for (const [key, value] of new URLSearchParams(query)) {
+        const dot = key.lastIndexOf('.')
+        if (dot <= 0 || dot === key.length - 1) continue
+        const name = key.slice(0, dot)
+        ;(layer[name] ??= {})[key.slice(dot + 1)] = value
+      }
+      layers.query = layer
+      notify()
+    },
+
+    reloadOverrides() {
+      layers.override = readOverrides()
+      notify()
+    },
+  }
+  return service
+}
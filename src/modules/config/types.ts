@@ -0,0 +1,8 @@
+export type ConfigOptions = {
+  /** JSON config file loaded during `init()` (`{ "<section>": { "<field>": value } }`); none by default */
+  url?: string
+  /** Query string read for `<section>.<field>=<value>` parameters (default `location.search`, `''` to ignore the URL) */
+  query?: string
+  /** localStorage key holding persisted overrides (default 'config:overrides'); `false` keeps overrides in memory */
+  storageKey?: string | false
+}
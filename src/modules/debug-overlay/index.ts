@@ -15,6 +15,9 @@
  * @returns {Module} The debug overlay module instance.
  *
  * @remarks
+ * - With the config module, the hotkeys and `startVisible` come from the `debug/overlay`
+ *   config section ({@link DEBUG_OVERLAY_CONFIG}), which can override these options and
+ *   changes them live.
  * - Panels can be registered and unregistered at runtime via events.
  * - The overlay displays information about registered panels and session duration.
  * - The overlay is rendered on top of all other layers.
@@ -35,20 +38,23 @@ import type {
   PanelId
 } from '../../engine/core/Types'
 import { Colours } from '../../util/colour'
-import type { DebugOverlayOptions } from './types'
+import { DEBUG_OVERLAY_CONFIG, type DebugOverlayOptions } from './types'
+import { CONFIG } from '../../engine/core/tokens'
 import { generateId } from '../../util/ids'
 import { queueRender } from '../../util/render'
 
+export { DEBUG_OVERLAY_CONFIG } from './types'
+
 
 type Margin = { x: number; y: number; line: number }
 
 const DEFAULT_MARGIN: Margin = { x: 8, y: 14, line: 14 }
 
 export function DebugOverlayModule(opts: DebugOverlayOptions = {}): Module {
-  const {
+  const { margin = DEFAULT_MARGIN } = opts
+  let {
     startVisible = false,
     hotkey = '`',
-    margin = DEFAULT_MARGIN,
     nextKey = ']',
     prevKey = '[',
   } = opts
@@ -143,6 +149,16 @@ export function DebugOverlayModule(opts: DebugOverlayOptions = {}): Module {
     id: 'debug/overlay',
 
     init(ctx) {
+      const config = ctx.services.get(CONFIG)
+      if (config) {
+        ({ startVisible, hotkey, nextKey, prevKey } = config.get(DEBUG_OVERLAY_CONFIG, opts))
+        visible = startVisible
+        ctx.scope.defer(config.watch(DEBUG_OVERLAY_CONFIG, (now, prev) => {
+          ({ startVisible, hotkey, nextKey, prevKey } = now)
+          if (now.startVisible !== prev.startVisible) visible = now.startVisible
+        }, opts))
+      }
+
       offKeydown = ctx.bus.on('input/keydown', (e) => {
         if (e.key === hotkey) {
           toggle()
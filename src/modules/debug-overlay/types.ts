@@ -1,3 +1,5 @@
+import { defineConfig } from '../../engine/core/Config'
+
 export type DebugOverlayOptions = {
   /** Start with the debug overlay visible (default false) */
   startVisible?: boolean,
@@ -10,3 +12,19 @@ export type DebugOverlayOptions = {
   /** Hotkey to navigate to the previous panel */
   prevKey?: string
 }
+
+/**
+ * Overlay settings that can also come from the config file, URL or overrides
+ * (`?debug/overlay.startVisible=1`); they win over the module options.
+ */
+export const DEBUG_OVERLAY_CONFIG = defineConfig('debug/overlay', {
+  startVisible: false,
+  hotkey: '`',
+  nextKey: ']',
+  prevKey: '[',
+}, {
+  startVisible: { description: 'Show the overlay on start; changing it live shows or hides it' },
+  hotkey: { description: 'Key that toggles the overlay' },
+  nextKey: { description: 'Key that shows the next panel' },
+  prevKey: { description: 'Key that shows the previous panel' },
+})
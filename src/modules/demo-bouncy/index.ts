@@ -1,50 +1,55 @@
 import type { Module, GameContext } from '../../engine/core/Types'
-import type { BodyId } from '../../engine/core/primitives'
-import type { PhysicsReadPort, PhysicsWritePort, Camera2DPort, InputReadPort } from '../../engine/core/ports'
-import { PHYSICS_READ, PHYSICS_WRITE, CAMERA_2D, INPUT_READ } from '../../engine/core/tokens'
+import type { EntityId } from '../../engine/core/primitives'
+import type {
+  PhysicsReadPort, PhysicsWritePort, Camera2DPort, InputReadPort, Tween, EcsPort, StorePort,
+} from '../../engine/core/ports'
+import { PHYSICS_READ, PHYSICS_WRITE, CAMERA_2D, INPUT_READ, TWEENS, SAVE, ECS, PREFABS, STORE, CONFIG } from '../../engine/core/tokens'
+import { BODY, TRANSFORM, SPRITE, ANIMATOR } from '../../engine/core/components'
+import { LOAD_PROGRESS } from '../../engine/core/state'
+import { defineComponent } from '../../engine/core/Component'
+import { defineConfig } from '../../engine/core/Config'
 import { Colours } from '../../util/colour'
 import type { Colour } from '../../engine/core/primitives'
 import { PreloadImages } from '../../util/preload'
-import { loadSpriteSheet } from '../../util/spritesheet'
-import { Animator } from '../../util/animator'
-import { Materials } from '../../util/material'
+import { Animator, type AnimatorState } from '../../util/animator'
 import { queueRender } from '../../util/render'
-
-// Use Colour, not number
-type RenderBox = { body: BodyId, hx: number, hy: number, colour: Colour }
-
-type Mover = {
-  body: BodyId
-  hx: number
-  hy: number
-  colour: Colour
-  originX: number
-  originY: number
-  axis: 'x' | 'y'
-  amplitudeM: number
-  speedHz: number
+import { Easing } from '../../util/easing'
+import { kinematicSink } from '../../util/tween'
+
+type PlayerState = { speedPx: number, dir: -1 | 1, attacking: boolean, jumping: boolean, moving: boolean }
+
+/** Solid rectangle drawn around the entity's transform; use Colour, not number */
+const BOX = defineComponent<{ hx: number, hy: number, colour: Colour }>('Box')
+const PLAYER = defineComponent<PlayerState>('Player')
+/** Oscillates the kinematic body along `axis` by `amplitude` meters at `hz` */
+type MoverState = { axis: 'x' | 'y', amplitude: number, hz: number }
+const MOVER = defineComponent<MoverState>('Mover')
+
+/** Tunables QA can change from the config file or URL (`?demo/bouncy.gravity=-3`) */
+const DEMO_CONFIG = defineConfig('demo/bouncy', { gravity: -9.81 }, {
+  gravity: { description: 'Vertical gravity in m/s² (y-up)', min: -50, max: 50 },
+})
+
+// Gameplay state not covered by the physics and camera sections
+type DemoSave = {
+  player: Omit<PlayerState, 'speedPx'>
+  anim?: AnimatorState
+  movers: number[]
 }
 
 export default function DemoBouncy(): Module {
-  let playerBody: BodyId | undefined
-  let boxBody: BodyId | undefined
-  let boxBody2: BodyId | undefined   // <-- track the 2nd crate
-  let groundBody: BodyId | undefined
-  let leftWallBody: BodyId | undefined
-  let rightWallBody: BodyId | undefined
-
-  const staticPlatforms: RenderBox[] = []
-  const movers: Mover[] = []
-
-  const player = { speedPx: 140, dir: 1 as -1 | 1, attacking: false, jumping: false, moving: false }
+  let playerEntity: EntityId | undefined
+  const moverTweens: Tween[] = []
+  let offSave: (() => void) | undefined
 
+  let ecs!: EcsPort
   let physics_read!: PhysicsReadPort
   let physics_write!: PhysicsWritePort
   let inputState!: InputReadPort
   let camera!: Camera2DPort
 
+  let store!: StorePort
   let ready = false
-  let progress = 0
 
   const manifest = {
     background: '/assets/background.jpg',
@@ -52,101 +57,81 @@ export default function DemoBouncy(): Module {
     blocks: '/assets/tiles/blocks.png',
   }
 
-  let playerImg: HTMLImageElement | undefined
-  let playerAnim: Animator | undefined
-
-  let tSec = 0
-
-  // keep the ground width for rendering
-  let groundHalfWidthM = 0
-
-  const playIfDifferent = (name: string) => {
-    if (!playerAnim) return
-    if (playerAnim.clip !== name) playerAnim.play(name, true)
+  const playIfDifferent = (anim: Animator, name: string) => {
+    if (anim.clip !== name) anim.play(name, true)
   }
 
+  const id = 'demo/bouncy-rect-physics-large'
+
   return {
-    id: 'demo/bouncy-rect-physics-large',
+    id,
+    requires: [PHYSICS_READ, PHYSICS_WRITE, INPUT_READ, CAMERA_2D, TWEENS, ECS, PREFABS, STORE],
 
     async start(ctx: GameContext) {
+      ecs = ctx.services.getOrThrow(ECS)
       physics_read = ctx.services.getOrThrow(PHYSICS_READ)
       physics_write = ctx.services.getOrThrow(PHYSICS_WRITE)
       inputState = ctx.services.getOrThrow(INPUT_READ)
       camera = ctx.services.getOrThrow(CAMERA_2D)
-
-      const [_, sheet] = await Promise.all([
-        PreloadImages(ctx, manifest, (loaded, total) => { progress = loaded / total }),
-        loadSpriteSheet('/assets/character.json'),
-      ])
-      playerImg = ctx.services.assets.getImage('player')!
-      playerAnim = new Animator(sheet, 'idle')
+      store = ctx.services.getOrThrow(STORE)
+      const tweens = ctx.services.getOrThrow(TWEENS)
+      const prefabs = ctx.services.getOrThrow(PREFABS)
+
+      store.set(LOAD_PROGRESS, 0)
+      await PreloadImages(ctx, manifest, (loaded, total) => { store.set(LOAD_PROGRESS, loaded / total) })
+      prefabs.component(BOX, ({ colour }: { colour: keyof typeof Colours }, p) => {
+        const shape = p.def.body?.shapes?.[0]?.shape
+        if (shape?.type !== 'box') throw new Error(`Prefab "${p.name}": box needs a box shape`)
+        return { hx: p.toMeters(shape.hx), hy: p.toMeters(shape.hy), colour: Colours[colour] }
+      }, 'box')
+      prefabs.component(PLAYER, ({ speedPx }: { speedPx: number }) => (
+        { speedPx, dir: 1, attacking: false, jumping: false, moving: false }
+      ), 'player')
+      prefabs.component(MOVER, (m: MoverState, p) => ({ ...m, amplitude: p.toMeters(m.amplitude) }), 'mover')
+      await prefabs.load('/assets/prefabs.json')
 
       const { width, height } = ctx.config
       const ppm = camera.get().ppm
-      const pxToMeters = (px: number) => px / ppm
-      const screenYpxToWorldMeters = (y_px: number) => (height - y_px) / ppm
+      // Level layout is in screen pixels (y-down)
+      const at = (xPx: number, yPx: number) => ({ x: xPx / ppm, y: (height - yPx) / ppm })
+      const size = (name: string, wPx: number, hPx: number) => {
+        const [first] = prefabs.resolve(name).body!.shapes!
+        return { body: { shapes: [{ ...first, shape: { type: 'box' as const, hx: wPx / 2, hy: hPx / 2 } }] } }
+      }
 
       const levelWidthPx = width * 5
-      groundHalfWidthM = pxToMeters(levelWidthPx / 2)
 
-      physics_write.setGravity({ x: 0, y: -9.81 })
+      const config = ctx.services.get(CONFIG)
+      const { gravity } = config?.get(DEMO_CONFIG) ?? DEMO_CONFIG.defaults
+      physics_write.setGravity({ x: 0, y: gravity })
+      if (config) ctx.scope.defer(config.watch(DEMO_CONFIG, (now) => physics_write.setGravity({ x: 0, y: now.gravity })))
 
-      playerBody = physics_write.createBody({
-        type: 'dynamic',
-        position: { x: pxToMeters(64), y: screenYpxToWorldMeters(32) },
-        shapes: [{ shape: { type: 'box', hx: pxToMeters(16), hy: pxToMeters(16) }, material: { friction: 0.8, restitution: 0 } }],
-        linearDamping: 0.01, angularDamping: 0.01, bullet: true,
-        userData: { tag: 'player' },
-      })
-
-      boxBody = physics_write.createBody({
-        type: 'dynamic',
-        position: { x: pxToMeters(220), y: screenYpxToWorldMeters(40) },
-        shapes: [{ shape: { type: 'box', hx: pxToMeters(20), hy: pxToMeters(20) }, material: { friction: 0.5, restitution: 0.6 } }],
-        userData: { tag: 'crate' },
-      })
-      boxBody2 = physics_write.createBody({
-        type: 'dynamic',
-        position: { x: pxToMeters(900), y: screenYpxToWorldMeters(40) },
-        shapes: [{ shape: { type: 'box', hx: pxToMeters(20), hy: pxToMeters(20) }, material: { friction: 0.5, restitution: 0.2 } }],
-        userData: { tag: 'crate' },
-      })
+      playerEntity = prefabs.spawn('player', at(64, 32), undefined, id)
+      prefabs.spawn('bouncy-crate', at(220, 40), undefined, id)
+      prefabs.spawn('crate', at(900, 40), undefined, id)
 
-      const addStaticPlatform = (xPx: number, yPx: number, wPx: number, hPx: number, colour: Colour = Colours.BROWN) => {
-        const hx = pxToMeters(wPx / 2)
-        const hy = pxToMeters(hPx / 2)
-        const body = physics_write.createBody({
-          type: 'static',
-          position: { x: pxToMeters(xPx), y: screenYpxToWorldMeters(yPx) },
-          shapes: [{ shape: { type: 'box', hx, hy }, material: Materials.Grass }],
-          userData: { tag: 'platform' },
-        })
-        staticPlatforms.push({ body, hx, hy, colour })
+      const addStaticPlatform = (xPx: number, yPx: number, wPx: number, hPx: number) => {
+        prefabs.spawn('platform', at(xPx, yPx), size('platform', wPx, hPx), id)
       }
 
-      const addMover = (opts: {
-        xPx: number, yPx: number, wPx: number, hPx: number,
-        axis: 'x' | 'y', amplitudePx: number, speedHz: number, colour?: Colour
-      }) => {
-        const hx = pxToMeters(opts.wPx / 2)
-        const hy = pxToMeters(opts.hPx / 2)
-        const body = physics_write.createBody({
-          type: 'kinematic',               // <-- kinematic, not dynamic
-          position: { x: pxToMeters(opts.xPx), y: screenYpxToWorldMeters(opts.yPx) },
-          shapes: [{ shape: { type: 'box', hx, hy }, material: { friction: 1.0, restitution: 0 } }],
-          fixedRotation: true,             // keep level
-          linearDamping: 0.0,
-          angularDamping: 10.0,
-          userData: { tag: 'moving-platform' },
-        })
-        const t = physics_read.getTransform(body)!
-        movers.push({
-          body, hx, hy, colour: opts.colour ?? Colours.DARK_GREY,
-          originX: t.x, originY: t.y,
-          axis: opts.axis,
-          amplitudeM: pxToMeters(opts.amplitudePx),
-          speedHz: opts.speedHz
-        })
+      const addMover = (xPx: number, yPx: number, mover: MoverState) => {
+        const e = prefabs.spawn('moving-platform', at(xPx, yPx), { components: { mover } }, id)
+        const body = ecs.getOrThrow(e, BODY)
+        const { axis, amplitude: amp, hz } = ecs.getOrThrow(e, MOVER)
+
+        // Sine-like oscillation around the start position: ease out to one end,
+        // then swing end to end forever
+        const origin = physics_read.getTransform(body)![axis]
+        const period = 1 / hz
+        const onUpdate = kinematicSink(physics_write, body)
+        moverTweens.push(tweens.play({
+          sequence: [
+            { from: { [axis]: origin }, to: { [axis]: origin + amp },
+              duration: period / 4, ease: Easing.sineOut, onUpdate },
+            { from: { [axis]: origin + amp }, to: { [axis]: origin - amp },
+              duration: period / 2, ease: Easing.sineInOut, yoyo: true, repeat: Infinity, onUpdate },
+          ],
+        }, id))
       }
 
       // Layout (unchanged from my previous message)
@@ -160,40 +145,48 @@ export default function DemoBouncy(): Module {
       addStaticPlatform(1870, 240, 64, 20)
       addStaticPlatform(1990, 280, 64, 20)
       addStaticPlatform(2200, 360, 120, 24)
-      addMover({ xPx: 1050, yPx: 120, wPx: 96, hPx: 20, axis: 'x', amplitudePx: 140, speedHz: 0.4 })
-      addMover({ xPx: 1680, yPx: 180, wPx: 96, hPx: 20, axis: 'y', amplitudePx: 100, speedHz: 0.6 })
+      addMover(1050, 120, { axis: 'x', amplitude: 140, hz: 0.4 })
+      addMover(1680, 180, { axis: 'y', amplitude: 100, hz: 0.6 })
       addStaticPlatform(2450, 220, 180, 24)
       addStaticPlatform(2700, 180, 80, 24)
       addStaticPlatform(2900, 260, 160, 24)
       addStaticPlatform(3150, 320, 120, 24)
 
-      groundBody = physics_write.createBody({
-        type: 'static',
-        position: { x: pxToMeters(levelWidthPx / 2), y: screenYpxToWorldMeters(height - 8) },
-        shapes: [{ shape: { type: 'box', hx: groundHalfWidthM, hy: pxToMeters(8) }, material: { friction: 0.9, restitution: 0.0 } }],
-        userData: { tag: 'ground' },
-      })
-
-      leftWallBody = physics_write.createBody({
-        type: 'static',
-        position: { x: pxToMeters(-8), y: screenYpxToWorldMeters(height / 2) },
-        shapes: [{ shape: { type: 'box', hx: pxToMeters(8), hy: pxToMeters(height / 2) }, material: { friction: 0.9, restitution: 0.0 } }],
-        userData: { tag: 'wall' },
-      })
-
-      rightWallBody = physics_write.createBody({
-        type: 'static',
-        position: { x: pxToMeters(levelWidthPx + 8), y: screenYpxToWorldMeters(height / 2) },
-        shapes: [{ shape: { type: 'box', hx: pxToMeters(8), hy: pxToMeters(height / 2) }, material: { friction: 0.9, restitution: 0.0 } }],
-        userData: { tag: 'wall' },
+      prefabs.spawn('ground', at(levelWidthPx / 2, height - 8), size('ground', levelWidthPx, 16), id)
+      prefabs.spawn('wall', at(-8, height / 2), size('wall', 16, height), id)
+      prefabs.spawn('wall', at(levelWidthPx + 8, height / 2), size('wall', 16, height), id)
+
+      // Bodies keep their ids across a physics restore, so only gameplay state is saved here.
+      // Components are looked up on each call: an ECS restore may have replaced them.
+      const entity = playerEntity
+      offSave = ctx.services.get(SAVE)?.register<DemoSave>(id, {
+        serialize() {
+          const { dir, attacking, jumping, moving } = ecs.getOrThrow(entity, PLAYER)
+          return {
+            player: { dir, attacking, jumping, moving },
+            anim: ecs.getOrThrow(entity, ANIMATOR).getState(),
+            movers: moverTweens.map(t => t.elapsed),
+          }
+        },
+        deserialize(data) {
+          Object.assign(ecs.getOrThrow(entity, PLAYER), data.player)
+          if (data.anim) ecs.getOrThrow(entity, ANIMATOR).setState(data.anim)
+          data.movers.forEach((elapsed, i) => moverTweens[i]?.seek(elapsed))
+        },
       })
 
       ready = true
     },
 
-    update(_ctx, dt) {
-      if (!ready) return
-      tSec += dt
+    destroy() {
+      offSave?.()
+    },
+
+    update() {
+      if (!ready || playerEntity === undefined) return
+      const player = ecs.getOrThrow(playerEntity, PLAYER)
+      const playerBody = ecs.getOrThrow(playerEntity, BODY)
+      const anim = ecs.getOrThrow(playerEntity, ANIMATOR)
 
       const left = inputState.isDown('ArrowLeft') || inputState.isDown('a')
       const right = inputState.isDown('ArrowRight') || inputState.isDown('d')
@@ -203,7 +196,7 @@ export default function DemoBouncy(): Module {
       player.moving = left !== right
       player.attacking = attack
 
-      if (physics_read && physics_write && playerBody != null) {
+      {
         const vel = physics_read.getVelocity(playerBody) ?? { vx: 0, vy: 0, w: 0 }
 
         const ppm = camera.get().ppm
@@ -220,31 +213,20 @@ export default function DemoBouncy(): Module {
         player.jumping = Math.abs(vy * ppm) > 5 && !attack
       }
 
-      // Kinematic platform motion
-      // Move kinematic platforms along simple sine paths via velocity
-      // Drive kinematic platforms by setting their next transform every frame
-      for (const m of movers) {
-        const omega = 2 * Math.PI * m.speedHz
-        const s = Math.sin(omega * tSec)
-
-        const targetX = m.axis === 'x' ? m.originX + m.amplitudeM * s : m.originX
-        const targetY = m.axis === 'y' ? m.originY + m.amplitudeM * s : m.originY
-
-        physics_write.setKinematicTarget(m.body, { x: targetX, y: targetY, angle: 0 })
-      }
+      if (player.attacking) playIfDifferent(anim, 'attack')
+      else if (player.jumping) playIfDifferent(anim, 'jump')
+      else if (player.moving) playIfDifferent(anim, 'walk')
+      else playIfDifferent(anim, 'idle')
 
-      // Camera follow
-      if (playerBody && physics_read) {
-        const p = physics_read.getTransform(playerBody)
-        if (p) camera.follow({ x: p.x, y: p.y }, { lerp: 0.2, deadzoneHalf: { x: 2, y: 1 } })
-      }
-
-      if (player.attacking) playIfDifferent('attack')
-      else if (player.jumping) playIfDifferent('jump')
-      else if (player.moving) playIfDifferent('walk')
-      else playIfDifferent('idle')
+      // The ECS advances the animator and draws the sprite
+      ecs.getOrThrow(playerEntity, SPRITE).flipX = player.dir < 0
+    },
 
-      playerAnim?.update(dt)
+    // Follow the player's post-step position (the ECS syncs TRANSFORM before this)
+    lateUpdate() {
+      if (!ready || playerEntity === undefined) return
+      const p = ecs.get(playerEntity, TRANSFORM)
+      if (p) camera.follow({ x: p.x, y: p.y }, { lerp: 0.2, deadzoneHalf: { x: 2, y: 1 } })
     },
 
     render(ctx, _alpha) {
@@ -256,6 +238,7 @@ export default function DemoBouncy(): Module {
       }
 
       if (!ready) {
+        const progress = store.get(LOAD_PROGRESS)
         queueRender(ctx, 'ui', (d) => {
           const w = Math.floor(ctx.config.width * 0.6)
           const h = 8
@@ -268,44 +251,18 @@ export default function DemoBouncy(): Module {
         return
       }
 
+      // Platforms, crates and ground; the player sprite is drawn by the ECS
+      const boxes = [...ecs.query(TRANSFORM, BOX)]
       queueRender(ctx, 'world', (d, worldCam) => {
         if (!worldCam) return
-
-        if (playerImg && playerAnim && playerBody && physics_read) {
-          const t = physics_read.getTransform(playerBody)!
-          const { sx, sy, sw, sh } = playerAnim.sourceRect
-          const pxToMeters = 1 / worldCam.ppm
-          const scaleX = 2 * player.dir * pxToMeters
-          const scaleY = 2 * pxToMeters
-          d.sprite(playerImg, t.x, t.y, { sx, sy, sw, sh, ox: sw / 2, oy: sh / 2, scaleX, scaleY, rotation: t.angle })
-        }
-
-        // Draw both crates
-        for (const b of [boxBody, boxBody2]) {
-          if (!b) continue
-          const t = physics_read.getTransform(b)
-          if (t) d.rect(t.x - 0.4, t.y - 0.4, 0.8, 0.8, Colours.BLUE)
-        }
-
-        for (const p of staticPlatforms) {
-          const t = physics_read.getTransform(p.body)!
-          d.rect(t.x - p.hx, t.y - p.hy, p.hx * 2, p.hy * 2, p.colour)
-        }
-
-        for (const m of movers) {
-          const t = physics_read.getTransform(m.body)!
-          d.rect(t.x - m.hx, t.y - m.hy, m.hx * 2, m.hy * 2, m.colour)
-        }
-
-        if (groundBody && physics_read) {
-          const g = physics_read.getTransform(groundBody)!
-          d.rect(g.x - groundHalfWidthM, g.y - 0.16, groundHalfWidthM * 2, 0.32, Colours.BLACK)
+        for (const [, t, b] of boxes) {
+          d.rect(t.x - b.hx, t.y - b.hy, b.hx * 2, b.hy * 2, b.colour)
         }
       }, 10)
 
       queueRender(ctx, 'ui', (d) => {
-        if (playerBody && physics_read) {
-          const t = physics_read.getTransform(playerBody)!
+        const t = playerEntity !== undefined ? ecs.get(playerEntity, TRANSFORM) : undefined
+        if (t) {
           const s = d.toScreen({ x: t.x, y: t.y }, cam)
           d.text('Player', s.x - 16, s.y - 10, Colours.WHITE)
         }
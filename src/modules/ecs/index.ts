@@ -0,0 +1,129 @@
+/**
+ * ECS module: entities, typed components, queries and fixed-step systems.
+ *
+ * @module modules/ecs
+ *
+ * @returns A module publishing the {@link EcsPort} under `ECS`.
+ *
+ * @remarks
+ * - Define components with `defineComponent<T>(name)` (`engine/core/Component`); built-ins
+ *   live in `engine/core/components`: `TRANSFORM`, `BODY`, `SPRITE`, `ANIMATOR`.
+ * - Systems run in the phase they ask for (`preUpdate`, `update`, `postUpdate`,
+ *   `lateUpdate`) at this module's position in that phase, ordered by `order`.
+ * - Built-in behaviour:
+ *   - after the physics step (`lateUpdate`), `TRANSFORM` is copied from each `BODY`;
+ *   - removing a `BODY` (or its entity) removes the physics body;
+ *   - `ANIMATOR`s advance every step;
+ *   - `render` draws every `TRANSFORM` + `SPRITE` entity into its pass.
+ * - Entities and systems created with an `owner` are destroyed when that module is removed.
+ * - Entities and component values are part of engine snapshots, so a rollback restores them
+ *   together with physics. Plain-data values (objects, arrays) are copied; class instances
+ *   such as an `Animator` are shared, so restore their state yourself if it matters.
+ *   Systems are not snapshotted.
+ * - With a save module, the world is saved under the `ecs` key: entities, and every
+ *   component whose values are all plain data, by component name (so give those unique
+ *   names). The section is registered in `start()`, before the modules that require `ECS`
+ *   register theirs, so it is restored first. Other components, such as `SPRITE` and
+ *   `ANIMATOR`, keep their current values for the entities that still exist.
+ *
+ * @example
+ * ```ts
+ * const ecs = ctx.services.getOrThrow(ECS)
+ * const HEALTH = defineComponent<number>('Health')
+ *
+ * ecs.create([
+ *   [BODY, physics.createBody({ type: 'dynamic', position, shapes })],
+ *   [SPRITE, { image: crateImg }],
+ *   [HEALTH, 3],
+ * ], 'game/level')
+ *
+ * ecs.system({ name: 'cleanup', run(world) {
+ *   for (const [e, hp] of world.query(HEALTH)) if (hp <= 0) world.destroy(e)
+ * } }, 'game/level')
+ * ```
+ */
+
+import type { Module, UpdatePhase } from '../../engine/core/Types'
+import { ECS, PHYSICS_READ, PHYSICS_WRITE, SAVE } from '../../engine/core/tokens'
+import { ANIMATOR, BODY, SPRITE, TRANSFORM } from '../../engine/core/components'
+import { queueRender } from '../../util/render'
+import { errorReporter, type ErrorReporter } from '../../util/log'
+import { createWorld, type EcsSnapshot, type EcsState } from './service'
+
+export default function Ecs(): Module {
+  // Set in init(); no system runs before that
+  let report: ErrorReporter | undefined
+  const world = createWorld((message, fields) => report?.(message, fields))
+  const offs: (() => void)[] = []
+  let offSave: (() => void) | undefined
+
+  const phase = (p: UpdatePhase): Module[UpdatePhase] => (ctx, dt) => world.runPhase(p, dt, ctx)
+
+  return {
+    id: 'ecs',
+    provides: [ECS],
+
+    init(ctx) {
+      report = errorReporter(ctx, 'ecs')
+      ctx.services.set(ECS, world.port)
+      offs.push(ctx.bus.on('engine/moduleRemoved', (e) => world.port.clearOwner(e.id)))
+      offs.push(world.port.onRemove(BODY, (body) => {
+        ctx.services.get(PHYSICS_WRITE)?.removeBody(body)
+      }))
+    },
+
+    start(ctx) {
+      offSave = ctx.services.get(SAVE)?.register<EcsState>('ecs', {
+        serialize: () => world.saveState(),
+        deserialize: (state) => world.loadState(state),
+      })
+    },
+
+    preUpdate: phase('preUpdate'),
+    update: phase('update'),
+    postUpdate: phase('postUpdate'),
+
+    lateUpdate(ctx, dt) {
+      const physics = ctx.services.get(PHYSICS_READ)
+      if (physics) {
+        for (const [e, body] of world.port.query(BODY)) {
+          const t = physics.getTransform(body)
+          if (t) world.port.add(e, TRANSFORM, { x: t.x, y: t.y, angle: t.angle })
+        }
+      }
+      for (const [, anim] of world.port.query(ANIMATOR)) anim.update(dt)
+      world.runPhase('lateUpdate', dt, ctx)
+    },
+
+    render(ctx) {
+      for (const [e, t, sprite] of world.port.query(TRANSFORM, SPRITE)) {
+        const { image } = sprite
+        const src = world.port.get(e, ANIMATOR)?.sourceRect ?? sprite.src
+          ?? { sx: 0, sy: 0, sw: image.width, sh: image.height }
+        queueRender(ctx, sprite.pass ?? 'world', (d, cam) => {
+          const scale = sprite.scale ?? 1 / (cam?.ppm ?? 1)
+          d.sprite(image, t.x, t.y, {
+            ...src,
+            ox: src.sw / 2,
+            oy: src.sh / 2,
+            scaleX: sprite.flipX ? -scale : scale,
+            scaleY: scale,
+            rotation: t.angle,
+            alpha: sprite.alpha,
+          })
+        }, sprite.z ?? 0)
+      }
+    },
+
+    // Rollback: entities, owners and component values; BODY ids line up with the restored physics world
+    snapshot: () => world.snapshot(),
+    restore: (_ctx, state) => world.restore(state as EcsSnapshot),
+
+    destroy() {
+      offSave?.()
+      // Physics may already be gone; don't remove bodies from a disposed world
+      offs.splice(0).forEach(off => off())
+      world.clear()
+    },
+  }
+}
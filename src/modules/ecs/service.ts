@@ -0,0 +1,270 @@
+import type { ComponentType } from '../../engine/core/Component'
+import type { ComponentValues, EcsPort, SystemSpec } from '../../engine/core/ports'
+import type { EntityId } from '../../engine/core/primitives'
+import type { GameContext, UpdatePhase } from '../../engine/core/Types'
+import type { ErrorReporter } from '../../util/log'
+
+type System = SystemSpec & { seq: number; owner?: string; active: boolean }
+type RemoveHandler<T> = (value: T, e: EntityId) => void
+
+/** Entities and component values captured by `snapshot()`, for rollback. */
+export type EcsSnapshot = {
+  nextId: number
+  entities: [EntityId, string | undefined][]
+  stores: [symbol, [EntityId, unknown][]][]
+}
+
+/**
+ * JSON form of the world for save files: entities, and component values by component name.
+ * Owners are `null` rather than `undefined` so they survive JSON.
+ */
+export type EcsState = {
+  nextId: number
+  entities: [EntityId, string | null][]
+  components: Record<string, [EntityId, unknown][]>
+}
+
+/** Whether `v` survives a JSON round trip: finite numbers, strings, booleans, `null`, and arrays or plain objects of them. */
+function isPlainData(v: unknown): boolean {
+  if (v === null || typeof v === 'string' || typeof v === 'boolean') return true
+  if (typeof v === 'number') return Number.isFinite(v)
+  if (Array.isArray(v)) return v.every(isPlainData)
+  if (typeof v !== 'object' || Object.getPrototypeOf(v) !== Object.prototype) return false
+  // Absent optional fields are fine; JSON drops them
+  return Object.values(v).every(x => x === undefined || isPlainData(x))
+}
+
+/**
+ * Copy plain data (arrays and plain objects, recursively) so later steps can't mutate it;
+ * anything else, such as class instances or images, is kept by reference.
+ */
+function copyValue(v: unknown): unknown {
+  if (Array.isArray(v)) return v.map(copyValue)
+  if (typeof v !== 'object' || v === null || Object.getPrototypeOf(v) !== Object.prototype) return v
+  const out: Record<string, unknown> = {}
+  for (const [k, x] of Object.entries(v)) out[k] = copyValue(x)
+  return out
+}
+
+/**
+ * Create an ECS world; systems are run by {@link runPhase}. Returns the port plus the driving functions.
+ * @param onError - Reports a system that threw (it is unregistered).
+ */
+export function createWorld(onError: ErrorReporter) {
+  let nextId = 1
+  let seq = 0
+  const entities = new Map<EntityId, string | undefined>()
+  const stores = new Map<symbol, Map<EntityId, unknown>>()
+  const removeHandlers = new Map<symbol, Set<RemoveHandler<unknown>>>()
+  let systems: System[] = []
+
+  /** Values of `type` by entity; the key ties every value in it to `T`. */
+  function store<T>(type: ComponentType<T>) {
+    let s = stores.get(type.key)
+    if (!s) stores.set(type.key, s = new Map())
+    return s as Map<EntityId, T>
+  }
+
+  function handlersOf<T>(type: ComponentType<T>) {
+    let handlers = removeHandlers.get(type.key)
+    if (!handlers) removeHandlers.set(type.key, handlers = new Set())
+    return handlers as Set<RemoveHandler<T>>
+  }
+
+  function removed(key: symbol, value: unknown, e: EntityId) {
+    const handlers = removeHandlers.get(key)
+    if (!handlers) return
+    for (const fn of [...handlers]) fn(value, e)
+  }
+
+  function* query(types: ComponentType<unknown>[]): Generator<[EntityId, ...unknown[]]> {
+    if (types.length === 0) {
+      for (const e of [...entities.keys()]) yield [e]
+      return
+    }
+    // Walk the smallest store and check the rest per entity
+    const all = types.map(store)
+    const smallest = all.reduce((a, b) => (b.size < a.size ? b : a))
+    for (const e of [...smallest.keys()]) {
+      if (!all.every(s => s.has(e))) continue
+      yield [e, ...all.map(s => s.get(e))]
+    }
+  }
+
+  const port: EcsPort = {
+    create(components = [], owner) {
+      const e = nextId++ as EntityId
+      entities.set(e, owner)
+      for (const [type, value] of components) store(type).set(e, value)
+      return e
+    },
+
+    destroy(e) {
+      if (!entities.delete(e)) return
+      for (const [key, s] of stores) {
+        if (!s.has(e)) continue
+        const value = s.get(e)
+        s.delete(e)
+        removed(key, value, e)
+      }
+    },
+
+    alive: (e) => entities.has(e),
+
+    add(e, type, value) {
+      if (!entities.has(e)) throw new Error(`ECS: entity ${e} does not exist`)
+      store(type).set(e, value)
+    },
+
+    remove(e, type) {
+      const s = store(type)
+      if (!s.has(e)) return false
+      const value = s.get(e)
+      s.delete(e)
+      removed(type.key, value, e)
+      return true
+    },
+
+    get: (e, type) => store(type).get(e),
+
+    getOrThrow(e, type) {
+      const s = store(type)
+      if (!s.has(e)) throw new Error(`ECS: entity ${e} has no ${type.name} component`)
+      return s.get(e)!
+    },
+
+    has: (e, type) => store(type).has(e),
+
+    query<C extends ComponentType<unknown>[]>(...types: C) {
+      return query(types) as Iterable<[EntityId, ...ComponentValues<C>]>
+    },
+
+    first(...types) {
+      for (const row of port.query(...types)) return row
+      return undefined
+    },
+
+    onRemove(type, fn) {
+      const handlers = handlersOf(type)
+      handlers.add(fn)
+      return () => { handlers.delete(fn) }
+    },
+
+    system(spec, owner) {
+      const s: System = { ...spec, seq: seq++, owner, active: true }
+      systems.push(s)
+      systems.sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.seq - b.seq)
+      return () => { s.active = false }
+    },
+
+    clearOwner(owner) {
+      for (const [e, o] of [...entities]) {
+        if (o === owner) port.destroy(e)
+      }
+      for (const s of systems) {
+        if (s.owner === owner) s.active = false
+      }
+    },
+
+    get size() { return entities.size },
+  }
+
+  /** Run every active system registered for `phase`. A throwing system is reported and unregistered. */
+  function runPhase(phase: UpdatePhase, dt: number, ctx: GameContext) {
+    for (const s of [...systems]) {
+      if (!s.active || (s.phase ?? 'update') !== phase) continue
+      try {
+        s.run(port, dt, ctx)
+      } catch (err) {
+        onError('system threw; removed', { system: s.name, owner: s.owner, error: err })
+        s.active = false
+      }
+    }
+    systems = systems.filter(s => s.active)
+  }
+
+  /** Capture entities and component values (plain data copied; see {@link copyValue}). */
+  function snapshot(): EcsSnapshot {
+    return {
+      nextId,
+      entities: [...entities],
+      stores: [...stores].map(([key, s]) => [key, [...s].map(([e, v]) => [e, copyValue(v)])]),
+    }
+  }
+
+  /**
+   * Return to a {@link snapshot}. Entities created since then are dropped without running
+   * `onRemove` handlers, since their resources (e.g. physics bodies) are restored by
+   * their own modules. Systems are not part of the snapshot.
+   */
+  function restore(snap: EcsSnapshot) {
+    nextId = snap.nextId
+    entities.clear()
+    for (const [e, owner] of snap.entities) entities.set(e, owner)
+    stores.clear()
+    for (const [key, values] of snap.stores) {
+      // Copy again so the same snapshot can be restored more than once
+      stores.set(key, new Map(values.map(([e, v]) => [e, copyValue(v)])))
+    }
+  }
+
+  /** Component name of each store key, leaving out names shared by two components. */
+  function uniqueNames(keys: symbol[]) {
+    const count = new Map<string, number>()
+    for (const key of keys) count.set(key.description ?? '', (count.get(key.description ?? '') ?? 0) + 1)
+    const names = new Map<symbol, string>()
+    for (const key of keys) {
+      const name = key.description ?? ''
+      if (count.get(name) === 1) names.set(key, name)
+    }
+    return names
+  }
+
+  /**
+   * Save data built from a {@link snapshot}: the entities plus every component whose values
+   * are all plain data, by name. Components holding anything else (images, `Animator`s, ...)
+   * or sharing their name with another component are left out.
+   */
+  function saveState(): EcsState {
+    const snap = snapshot()
+    const names = uniqueNames(snap.stores.map(([key]) => key))
+    const components: EcsState['components'] = {}
+    for (const [key, values] of snap.stores) {
+      const name = names.get(key)
+      if (name !== undefined && values.every(([, v]) => isPlainData(v))) components[name] = values
+    }
+    return {
+      nextId: snap.nextId,
+      entities: snap.entities.map(([e, owner]) => [e, owner ?? null]),
+      components,
+    }
+  }
+
+  /**
+   * Return to {@link saveState} data through {@link restore}. Saved components replace their
+   * current values; components left out of the save keep theirs for the entities that still
+   * exist. Saved components this world has never stored a value of are ignored.
+   */
+  function loadState(state: EcsState) {
+    const current = snapshot()
+    const names = uniqueNames(current.stores.map(([key]) => key))
+    const alive = new Set(state.entities.map(([e]) => e))
+    restore({
+      nextId: state.nextId,
+      entities: state.entities.map(([e, owner]) => [e, owner ?? undefined]),
+      stores: current.stores.map(([key, values]) => {
+        const name = names.get(key)
+        const saved = name === undefined ? undefined : state.components[name]
+        return [key, saved ?? values.filter(([e]) => alive.has(e))]
+      }),
+    })
+  }
+
+  /** Destroy every entity and drop every system (engine shutdown). */
+  function clear() {
+    for (const e of [...entities.keys()]) port.destroy(e)
+    systems = []
+  }
+
+  return { port, runPhase, clear, snapshot, restore, saveState, loadState }
+}
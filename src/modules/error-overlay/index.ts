@@ -0,0 +1,93 @@
+/**
+ * ErrorOverlay module: lists modules that failed at runtime, with their stack traces, on the canvas.
+ *
+ * @module modules/error-overlay
+ *
+ * @param opts - Optional configuration ({@link ErrorOverlayOptions}).
+ * @returns The error overlay module instance.
+ *
+ * @remarks
+ * - Listens for `engine/moduleError` and shows one entry per failed module (the latest error wins).
+ * - An entry is cleared when its module is re-enabled (manually or by a successful restart)
+ *   or removed.
+ * - Drawn into the `'debug'` pass above the debug overlay; the dismiss key hides it until the
+ *   next error. Nothing is drawn while there are no errors.
+ * - Needs a working render coordinator; if that module is the one that failed, check the console.
+ *
+ * @example
+ * ```ts
+ * const engine = new Engine({ width: 800, height: 600, mount, faultPolicy: 'restart' })
+ *   .add(ErrorOverlay())
+ * ```
+ */
+
+import type { Module, GameEventMap } from '../../engine/core/Types'
+import type { Colour } from '../../engine/core/primitives'
+import { Colours } from '../../util/colour'
+import { queueRender } from '../../util/render'
+import type { ErrorOverlayOptions } from './types'
+
+export type { ErrorOverlayOptions } from './types'
+
+const BACKDROP: Colour = { r: 0.25, g: 0, b: 0, a: 0.85 }
+const DEFAULT_MARGIN = { x: 8, y: 14, line: 14 }
+
+export default function ErrorOverlay(opts: ErrorOverlayOptions = {}): Module {
+  const {
+    maxStackLines = 4,
+    dismissKey = 'Escape',
+    margin = DEFAULT_MARGIN,
+  } = opts
+
+  const errors = new Map<string, GameEventMap['engine/moduleError']>()
+  let visible = false
+  const offs: (() => void)[] = []
+
+  function lines(): string[] {
+    const out = [`[MODULE ERRORS] ${errors.size} failed (${dismissKey} to dismiss)`]
+    for (const [id, e] of errors) {
+      out.push('', `${id} in ${e.hook}() -> ${e.policy}: ${e.message}`)
+      const frames = (e.stack ?? '').split('\n').slice(1, 1 + maxStackLines)
+      for (const f of frames) out.push(`  ${f.trim()}`)
+    }
+    return out
+  }
+
+  return {
+    id: 'debug/errors',
+
+    init(ctx) {
+      offs.push(
+        ctx.bus.on('engine/moduleError', (e) => {
+          errors.set(e.id, e)
+          visible = true
+        }),
+        ctx.bus.on('engine/moduleEnabled', (e) => { errors.delete(e.id) }),
+        ctx.bus.on('engine/moduleRemoved', (e) => { errors.delete(e.id) }),
+        ctx.bus.on('input/keydown', (e) => {
+          if (e.key === dismissKey) visible = false
+        }),
+      )
+    },
+
+    render(ctx) {
+      if (!visible || errors.size === 0) return
+      const text = lines()
+
+      queueRender(ctx, 'debug', (d) => {
+        d.rect(0, 0, ctx.config.width, margin.y + text.length * margin.line, BACKDROP)
+        let y = margin.y
+        for (const line of text) {
+          d.text(line, margin.x, y, y === margin.y ? Colours.YELLOW : Colours.WHITE)
+          y += margin.line
+        }
+      }, /*z*/ 10000) // above the debug overlay
+    },
+
+    destroy() {
+      offs.splice(0).forEach(off => off())
+      errors.clear()
+      visible = false
+    },
+  }
+}
@@ -0,0 +1,8 @@
+export type ErrorOverlayOptions = {
+  /** Stack frames shown per error (default 4) */
+  maxStackLines?: number
+  /** Hotkey that hides the overlay until the next error (default 'Escape') */
+  dismissKey?: string
+  /** Top-left offset in pixels and line height */
+  margin?: { x: number; y: number; line: number }
+}
@@ -0,0 +1,160 @@
+/**
+ * InputReplay module: records input events per fixed tick and replays them deterministically.
+ *
+ * @module modules/input-replay
+ *
+ * @param opts - Optional configuration ({@link InputReplayOptions}).
+ * @returns A module publishing the {@link InputReplayPort} under `INPUT_REPLAY`.
+ *
+ * @remarks
+ * - Records every `input/*` bus event tagged with the fixed tick it will be simulated on,
+ *   plus the RNG state at the start of the recording.
+ * - Playback restores the RNG state and re-emits each event in `preUpdate` of the same tick,
+ *   so every module's `update` sees it, wherever the module was added.
+ * - While playing, `KeyboardInput` and `PointerInput` suppress live DOM input. Playback emits
+ *   `replay/started` first, on which they release held keys and buttons (`input/keyup`,
+ *   `input/pointerup`), so live input can't stay stuck down during the replay.
+ * - Emits `replay/finished` when playback reaches the end.
+ * - Registers a debug panel showing the current mode and event counts.
+ *
+ * @example
+ * ```ts
+ * const replay = ctx.services.getOrThrow(INPUT_REPLAY)
+ * replay.record()
+ * // ... play ...
+ * const file = replay.stopRecording()
+ * localStorage.setItem('last-race', JSON.stringify(file))
+ *
+ * replay.play(JSON.parse(localStorage.getItem('last-race')!))
+ * ```
+ */
+
+import type { Module, GameContext, GameEvent, DebugPanel } from '../../engine/core/Types'
+import type { InputReplayPort, ReplayEvent, ReplayFile } from '../../engine/core/ports'
+import { INPUT_REPLAY } from '../../engine/core/tokens'
+import type { InputReplayOptions } from './types'
+
+export type { InputReplayOptions } from './types'
+
+export default function InputReplay(opts: InputReplayOptions = {}): Module {
+  const { autoRecord = false } = opts
+
+  let ctx!: GameContext
+  let state: InputReplayPort['state'] = 'idle'
+
+  // Recording
+  let recStart = 0
+  let recorded: ReplayEvent[] = []
+  let recRng: ReplayFile['rng'] | undefined
+
+  // Playback
+  let playing: ReplayFile | undefined
+  let playStart = 0
+  let cursor = 0
+
+  let offInput: (() => void) | undefined
+
+  const PANEL_ID = -1003 as any
+  const panel: DebugPanel = {
+    id: PANEL_ID,
+    title: 'Input Replay',
+    order: 510,
+    render() {
+      const tick = ctx.services.time.tick
+      const lines = [`Mode: ${state}`]
+      if (state === 'recording') {
+        lines.push(`Ticks: ${tick - recStart}`, `Events: ${recorded.length}`)
+      } else if (state === 'playing' && playing) {
+        lines.push(`Tick: ${tick - playStart} / ${playing.ticks}`, `Events: ${cursor} / ${playing.events.length}`)
+      }
+      return lines
+    },
+  }
+
+  const port: InputReplayPort = {
+    get state() { return state },
+
+    record() {
+      port.stop()
+      state = 'recording'
+      recStart = ctx.services.time.tick
+      recRng = ctx.services.rng.getState()
+      recorded = []
+    },
+
+    stopRecording() {
+      if (state !== 'recording') throw new Error('InputReplay: not recording')
+      state = 'idle'
+      return {
+        version: 1,
+        fixedStep: ctx.services.time.fixedStep,
+        rng: recRng!,
+        ticks: ctx.services.time.tick - recStart,
+        events: recorded,
+      }
+    },
+
+    play(file) {
+      if (file.version !== 1) throw new Error(`InputReplay: unsupported version ${file.version}`)
+      if (file.fixedStep !== ctx.services.time.fixedStep) {
+        throw new Error(`InputReplay: recorded at fixedStep ${file.fixedStep}, engine runs ${ctx.services.time.fixedStep}`)
+      }
+      port.stop()
+      state = 'playing'
+      playing = file
+      playStart = ctx.services.time.tick
+      cursor = 0
+      ctx.services.rng.setState(file.rng)
+      ctx.bus.emit({ type: 'replay/started', ticks: file.ticks })
+    },
+
+    stop() {
+      state = 'idle'
+      playing = undefined
+      recorded = []
+    },
+  }
+
+  return {
+    id: 'input/replay',
+    provides: [INPUT_REPLAY],
+
+    init(c) {
+      ctx = c
+      ctx.services.set(INPUT_REPLAY, port)
+
+      // Record ahead of other handlers
+      offInput = ctx.bus.on('input/*', (e) => {
+        if (state !== 'recording') return
+        const { type, ...payload } = e as GameEvent
+        recorded.push([ctx.services.time.tick - recStart, type, payload])
+      }, { priority: 1000 })
+    },
+
+    start() {
+      ctx.bus.emit({ type: 'debug/panel/register', panel })
+      if (autoRecord) port.record()
+    },
+
+    preUpdate() {
+      if (state !== 'playing' || !playing) return
+      const file = playing
+      const rel = ctx.services.time.tick - playStart
+
+      while (cursor < file.events.length && file.events[cursor][0] <= rel) {
+        const [, type, payload] = file.events[cursor++]
+        ctx.bus.emit({ ...payload, type } as GameEvent)
+      }
+
+      if (rel + 1 >= file.ticks && cursor >= file.events.length) {
+        port.stop()
+        ctx.bus.emit({ type: 'replay/finished', ticks: file.ticks })
+      }
+    },
+
+    destroy() {
+      offInput?.()
+      port.stop()
+    },
+  }
+}
@@ -0,0 +1,19 @@
+export type InputReplayOptions = {
+  /** Start recording as soon as the engine starts (default false). Handy for bug reports. */
+  autoRecord?: boolean
+}
+
+declare module '../../engine/core/Types' {
+  interface GameEventMap {
+    /**
+     * Playback of a replay started; live input modules release whatever is held.
+     * - `ticks`: Length of the replay in fixed ticks.
+     */
+    "replay/started": { ticks: number }
+    /**
+     * A replay finished playing back all of its ticks.
+     * - `ticks`: Length of the replay in fixed ticks.
+     */
+    "replay/finished": { ticks: number }
+  }
+}
@@ -69,6 +69,7 @@ export default function InputState(): Module {
 
   return {
     id: 'input/state',
+    provides: [INPUT_READ],
 
     init(ctx) {
       if (!ctx.services.has(INPUT_READ)) {
@@ -12,6 +12,8 @@
  * - The module emits events of type `'input/keydown'` and `'input/keyup'` with the pressed key.
  * - Listeners are attached to the global `window` object by default.
  * - To scope input to a specific element, replace `window` with the desired DOM node.
+ * - Live input is ignored while an `INPUT_REPLAY` service is playing back a recording; keys held
+ *   when playback starts get an `'input/keyup'` so they don't stay down.
  *
  * @example
  * ```typescript
@@ -21,6 +23,7 @@
  */
 
 import type { Module, GameContext, GameEvent } from '../../engine/core/Types'
+import { INPUT_REPLAY } from '../../engine/core/tokens'
 
 export default function KeyboardInput(): Module {
   /** Set of keys currently held down (prevents auto-repeat floods). */
@@ -41,7 +44,10 @@ export default function KeyboardInput(): Module {
      * @param ctx - Engine context (provides the global {@link EventBus}).
      */
     init(ctx: GameContext) {
+      const replaying = () => ctx.services.get(INPUT_REPLAY)?.state === 'playing'
+
       onKeyDown = (e: KeyboardEvent) => {
+        if (replaying()) return
         // Only emit once per physical press; ignore auto-repeat
         if (!down.has(e.key)) {
           down.add(e.key)
@@ -50,12 +56,19 @@ export default function KeyboardInput(): Module {
       }
 
       onKeyUp = (e: KeyboardEvent) => {
+        if (replaying()) return
         // Only emit if we previously considered this key pressed
         if (down.delete(e.key)) {
           ctx.bus.emit({ type: 'input/keyup', key: e.key })
         }
       }
 
+      // Release held keys; the replay drives input from here
+      ctx.bus.on('replay/started', () => {
+        for (const key of down) ctx.bus.emit({ type: 'input/keyup', key })
+        down.clear()
+      })
+
       // Global keyboard input; swap with `ctx.config.canvas` if you prefer focus-scoped input
       window.addEventListener('keydown', onKeyDown)
       window.addEventListener('keyup', onKeyUp)
@@ -0,0 +1,120 @@
+/**
+ * Logger module: structured, leveled logging with channels, sinks and a debug panel.
+ *
+ * @module modules/logger
+ *
+ * @param opts - Optional configuration ({@link LoggerOptions}).
+ * @returns A module publishing the {@link LoggerPort} under `LOGGER`.
+ *
+ * @remarks
+ * - Modules log through a channel named after themselves: `LOGGER.channel(id).warn(msg, fields)`.
+ *   Levels are set globally (`level`) and per channel (`levels`, `setLevel`); a channel
+ *   inherits the level of its parent (`physics/2d` → `physics`).
+ * - Records go to every sink: `consoleSink()` by default, plus `jsonSink(write)` to ship
+ *   NDJSON elsewhere. The last `historySize` records stay in `LOGGER.history`
+ *   (`records(filter)`, `export()` as JSON) for diagnosing devices without devtools.
+ * - Once registered, the engine reports module faults on the `engine` channel instead
+ *   of the console. Add it first so other modules can pick it up in `init()`.
+ * - The debug panel lists recent warnings and errors; `filterKey` cycles through channels.
+ *
+ * @example
+ * ```ts
+ * engine.add(Logger({ level: 'info', levels: { 'net/rollback': 'debug' } }))
+ *
+ * // in a module
+ * const log = ctx.services.get(LOGGER)?.channel('race')
+ * log?.info('lap finished', { lap, timeMs })
+ * ```
+ */
+
+import type { Module, DebugPanel } from '../../engine/core/Types'
+import type { LogRecord } from '../../engine/core/ports'
+import { LOGGER } from '../../engine/core/tokens'
+import { consoleSink, memorySink } from './sinks'
+import { createLogger } from './service'
+import type { LoggerOptions } from './types'
+
+export type { LoggerOptions } from './types'
+export { consoleSink, memorySink, jsonSink, formatJson } from './sinks'
+
+/** Longest rendering of a single field value in the panel. */
+const MAX_FIELD_CHARS = 40
+
+export default function Logger(opts: LoggerOptions = {}): Module {
+  const {
+    level = 'info',
+    levels = {},
+    sinks = [consoleSink()],
+    historySize = 200,
+    rateLimit = { max: 10, perMs: 1000 },
+    panelLevel = 'warn',
+    panelLines = 12,
+    filterKey = '\\',
+  } = opts
+
+  const history = memorySink(historySize)
+  let logger: ReturnType<typeof createLogger> | undefined
+
+  /** Channel shown by the panel; `undefined` shows all. */
+  let filter: string | undefined
+
+  function cycleFilter() {
+    const names = logger?.channels() ?? []
+    const i = filter === undefined ? -1 : names.indexOf(filter)
+    filter = names[i + 1]
+  }
+
+  function value(v: unknown) {
+    const text = v instanceof Error ? v.message : typeof v === 'string' ? v : JSON.stringify(v)
+    return text.length > MAX_FIELD_CHARS ? `${text.slice(0, MAX_FIELD_CHARS - 1)}…` : text
+  }
+
+  function line(r: LogRecord) {
+    const fields = Object.entries(r.fields ?? {}).map(([k, v]) => ` ${k}=${value(v)}`).join('')
+    return `${(r.time / 1000).toFixed(1)}s ${r.level.toUpperCase()} ${r.channel}: ${r.message}${fields}`
+  }
+
+  const panel: DebugPanel = {
+    id: -1005 as any,
+    title: 'Log',
+    order: 530,
+    render() {
+      const shown = history.records({ level: panelLevel, channel: filter })
+      const errors = shown.filter(r => r.level === 'error').length
+      return [
+        `Channel: ${filter ?? 'all'} (${filterKey} to cycle)`,
+        `${shown.length} records at ${panelLevel} or above, ${errors} errors`,
+        '',
+        ...shown.slice(-panelLines).reverse().map(line),
+      ]
+    },
+  }
+
+  return {
+    id: 'logger',
+    provides: [LOGGER],
+
+    init(ctx) {
+      const { time } = ctx.services
+      logger = createLogger({
+        now: () => time.now(),
+        tick: () => time.tick,
+        level, levels, sinks, history, rateLimit,
+      })
+      ctx.services.set(LOGGER, logger)
+      ctx.bus.on('input/keydown', (e) => {
+        if (e.key === filterKey) cycleFilter()
+      })
+    },
+
+    start(ctx) {
+      ctx.bus.emit({ type: 'debug/panel/register', panel })
+    },
+
+    destroy() {
+      history.clear()
+      logger = undefined
+      filter = undefined
+    },
+  }
+}
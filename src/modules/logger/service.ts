@@ -0,0 +1,151 @@
+import type {
+  LogChannel, LoggerPort, LogFields, LogLevel, LogRecord, LogSink, MemoryLogSink,
+} from '../../engine/core/ports'
+import { LEVEL_RANK } from './sinks'
+
+/** Rate-limit bookkeeping for one channel + message. */
+type Window = { start: number; count: number; suppressed: number }
+
+/** Windows kept before expired ones are swept. */
+const MAX_WINDOWS = 500
+
+export type LoggerDeps = {
+  /** Engine clock (ms). */
+  now: () => number
+  /** Current fixed tick. */
+  tick: () => number
+  level: LogLevel
+  levels: Record<string, LogLevel>
+  sinks: LogSink[]
+  history: MemoryLogSink
+  rateLimit: { max: number; perMs: number } | false
+}
+
+/**
+ * Create the {@link LoggerPort}.
+ *
+ * @remarks
+ * A sink that throws is reported on the console and skipped for that record, so
+ * logging never breaks the caller.
+ */
+export function createLogger(deps: LoggerDeps): LoggerPort {
+  const { now, tick, history, rateLimit } = deps
+  const sinks = new Set<LogSink>([history, ...deps.sinks])
+  const levels = new Map(Object.entries(deps.levels))
+  const channels = new Map<string, LogChannel>()
+  /** Resolved minimum rank per channel; cleared whenever levels change. */
+  const minRank = new Map<string, number>()
+  const windows = new Map<string, Window>()
+  /** Channels that have written at least one record. */
+  const seen = new Set<string>()
+  let seq = 0
+
+  /** Minimum rank for `channel`: its own level, else the nearest parent's, else the default. */
+  function threshold(channel: string) {
+    let rank = minRank.get(channel)
+    if (rank !== undefined) return rank
+    let name = channel
+    for (;;) {
+      const level = levels.get(name)
+      if (level) { rank = LEVEL_RANK[level]; break }
+      const cut = name.lastIndexOf('/')
+      if (cut === -1) { rank = LEVEL_RANK[port.level]; break }
+      name = name.slice(0, cut)
+    }
+    minRank.set(channel, rank)
+    return rank
+  }
+
+  /**
+   * Apply the rate limit.
+   * @returns `undefined` to drop the record, else how many repeats were dropped before it.
+   */
+  function admit(channel: string, message: string, t: number): number | undefined {
+    if (!rateLimit) return 0
+    const key = `${channel}\u0000${message}`
+    let w = windows.get(key)
+    if (!w || t - w.start >= rateLimit.perMs) {
+      const suppressed = w?.suppressed ?? 0
+      if (!w && windows.size >= MAX_WINDOWS) sweep(t)
+      w = { start: t, count: 0, suppressed: 0 }
+      windows.set(key, w)
+      w.count++
+      return suppressed
+    }
+    if (w.count >= rateLimit.max) {
+      w.suppressed++
+      return undefined
+    }
+    w.count++
+    return 0
+  }
+
+  /** Forget windows that have expired and dropped nothing. */
+  function sweep(t: number) {
+    if (!rateLimit) return
+    for (const [key, w] of windows) {
+      if (t - w.start >= rateLimit.perMs && w.suppressed === 0) windows.delete(key)
+    }
+  }
+
+  function write(record: LogRecord) {
+    for (const sink of sinks) {
+      try {
+        sink.write(record)
+      } catch (err) {
+        console.error('Logger: sink threw', err)
+      }
+    }
+  }
+
+  function log(level: LogLevel, channel: string, message: string, fields?: LogFields) {
+    if (LEVEL_RANK[level] < threshold(channel)) return
+    const time = now()
+    const suppressed = admit(channel, message, time)
+    if (suppressed === undefined) return
+    if (suppressed > 0) fields = { ...fields, suppressed }
+    const record: LogRecord = { seq: ++seq, time, tick: tick(), level, channel, message }
+    if (fields) record.fields = fields
+    seen.add(channel)
+    write(record)
+  }
+
+  function channel(name: string): LogChannel {
+    let ch = channels.get(name)
+    if (ch) return ch
+    ch = {
+      name,
+      debug: (message, fields) => log('debug', name, message, fields),
+      info: (message, fields) => log('info', name, message, fields),
+      warn: (message, fields) => log('warn', name, message, fields),
+      error: (message, fields) => log('error', name, message, fields),
+      enabled: (level) => LEVEL_RANK[level] >= threshold(name),
+      child: (sub) => channel(`${name}/${sub}`),
+    }
+    channels.set(name, ch)
+    return ch
+  }
+
+  let level = deps.level
+  const port: LoggerPort = {
+    get level() { return level },
+    set level(v) {
+      level = v
+      minRank.clear()
+    },
+    channel,
+    log,
+    setLevel(name, lvl) {
+      if (lvl) levels.set(name, lvl)
+      else levels.delete(name)
+      minRank.clear()
+    },
+    addSink(sink) {
+      sinks.add(sink)
+      return () => { sinks.delete(sink) }
+    },
+    history,
+    channels: () => [...seen].sort(),
+  }
+  return port
+}
@@ -0,0 +1,76 @@
+import type { LogLevel, LogRecord, LogSink, MemoryLogSink } from '../../engine/core/ports'
+
+/** Numeric rank of each level, for filtering. */
+export const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+/** Whether `channel` is `name` or one of its sub-channels. */
+export function inChannel(channel: string, name: string) {
+  return channel === name || channel.startsWith(`${name}/`)
+}
+
+/** `JSON.stringify` replacer that keeps the useful parts of errors. */
+function replacer(_key: string, value: unknown) {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack }
+  return value
+}
+
+/**
+ * Serialize a record as one line of JSON (errors keep name, message and stack).
+ * @param record - The record.
+ */
+export function formatJson(record: LogRecord): string {
+  return JSON.stringify(record, replacer)
+}
+
+/**
+ * Print records with the matching `console` method, prefixed by their channel.
+ * Fields are passed as a second argument so devtools can expand them.
+ */
+export function consoleSink(): LogSink {
+  return {
+    write(r) {
+      const text = `[${r.channel}] ${r.message}`
+      if (r.fields) console[r.level](text, r.fields)
+      else console[r.level](text)
+    },
+  }
+}
+
+/**
+ * Keep the last `capacity` records in memory.
+ * @param capacity - Records retained (default `200`).
+ */
+export function memorySink(capacity = 200): MemoryLogSink {
+  const buffer: LogRecord[] = []
+
+  return {
+    write(r) {
+      buffer.push(r)
+      if (buffer.length > capacity) buffer.shift()
+    },
+    records(filter) {
+      const min = filter?.level ? LEVEL_RANK[filter.level] : 0
+      const channel = filter?.channel
+      return buffer.filter(r =>
+        LEVEL_RANK[r.level] >= min && (channel === undefined || inChannel(r.channel, channel))
+      )
+    },
+    clear() {
+      buffer.length = 0
+    },
+    export() {
+      return JSON.stringify(buffer, replacer)
+    },
+  }
+}
+
+/**
+ * Hand every record to `write` as one line of JSON (NDJSON), e.g. to batch and upload
+ * logs from devices without devtools.
+ * @param write - Receives one serialized record per call.
+ */
+export function jsonSink(write: (line: string) => void): LogSink {
+  return {
+    write(r) { write(formatJson(r)) },
+  }
+}
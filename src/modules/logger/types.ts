@@ -0,0 +1,23 @@
+import type { LogLevel, LogSink } from '../../engine/core/ports'
+
+export type LoggerOptions = {
+  /** Minimum level for channels without their own (default 'info') */
+  level?: LogLevel
+  /** Per-channel minimum levels, e.g. `{ 'physics/2d': 'debug' }`; sub-channels inherit them */
+  levels?: Record<string, LogLevel>
+  /** Where records go besides the history (default `[consoleSink()]`) */
+  sinks?: LogSink[]
+  /** Records kept in `history` for the panel and export (default 200) */
+  historySize?: number
+  /**
+   * At most `max` records with the same channel and message per `perMs` milliseconds
+   * (default `{ max: 10, perMs: 1000 }`); `false` disables rate limiting
+   */
+  rateLimit?: { max: number; perMs: number } | false
+  /** Lowest level listed in the debug panel (default 'warn') */
+  panelLevel?: LogLevel
+  /** Records listed in the debug panel (default 12) */
+  panelLines?: number
+  /** Key that cycles the panel's channel filter: all, then each channel (default '\\') */
+  filterKey?: string
+}
@@ -9,7 +9,7 @@
  * @remarks
  * - Registers physics services for reading, writing, and stepping.
  * - Provides a debug panel for inspecting simulation state and drawing body outlines.
- * - Handles initialization, update (stepping), and cleanup.
+ * - Handles initialization, stepping (in `postUpdate`, after gameplay `update`), and cleanup.
  *
  * @example
  * ```typescript
@@ -23,11 +23,12 @@
 
 import type { Module, DebugPanel } from '../../engine/core/Types'
 import type { Colour, BodyId, Vec2 } from '../../engine/core/primitives'
-import type { PhysicsService, Shape, ShapeBox, ShapeCircle, ShapeCapsule } from './types'
+import type { PhysicsService, PhysicsState, PhysicsSnapshot, Shape, ShapeBox, ShapeCircle, ShapeCapsule } from './types'
 import type { DrawServicePort, Camera2DPort } from '../../engine/core/ports'
-import { PHYSICS_READ, PHYSICS_WRITE, PHYSICS_STEP, DRAW_ALL, CAMERA_2D } from '../../engine/core/tokens'
+import { PHYSICS_READ, PHYSICS_WRITE, PHYSICS_STEP, DRAW_ALL, CAMERA_2D, SAVE } from '../../engine/core/tokens'
 import { createRapierPhysicsService } from './service'
 import { Colours } from '../../util/colour'
+import { profile } from '../../util/profile'
 
 // ---------------------------------------------------------------------------
 // Geometry helpers (world space, y-up)
@@ -144,6 +145,9 @@ function drawBodyOutline(
 // ---------------------------------------------------------------------------
 export function Physics2D(): Module {
   let physics: PhysicsService | undefined
+  let offBegin: (() => void) | undefined
+  let offEnd: (() => void) | undefined
+  let offSave: (() => void) | undefined
 
   const debugPanel: DebugPanel = {
     title: 'Physics 2D',
@@ -182,22 +186,44 @@ export function Physics2D(): Module {
 
   return {
     id: 'physics/2d',
+    provides: [PHYSICS_READ, PHYSICS_WRITE, PHYSICS_STEP],
 
     async init(ctx) {
       physics = await createRapierPhysicsService()
       ctx.services.set(PHYSICS_READ,  physics)
       ctx.services.set(PHYSICS_WRITE, physics)
       ctx.services.set(PHYSICS_STEP,  physics)
+      // Contacts are reported mid-step; post them so handlers run after the step
+      offBegin = physics.on('begin-contact', (a, b) => {
+        ctx.bus.post({ type: 'physics/collisionStart', bodyA: a, bodyB: b })
+      })
+      offEnd = physics.on('end-contact', (a, b) => {
+        ctx.bus.post({ type: 'physics/collisionEnd', bodyA: a, bodyB: b })
+      })
       // Register debug panel
       ctx.bus.emit({ type: 'debug/panel/register', panel: debugPanel })
     },
 
-    // If this module also owns the stepping, keep it here:
-    update(_ctx, dt) {
-      physics!.step(dt)
+    start(ctx) {
+      offSave = ctx.services.get(SAVE)?.register<PhysicsState>('physics/2d', {
+        serialize: () => physics!.saveState(),
+        deserialize: (state) => physics!.loadState(state),
+      })
+    },
+
+    // Step after gameplay has applied this tick's forces and velocities
+    postUpdate(ctx, dt) {
+      profile(ctx, 'physics:step', () => physics!.step(dt))
     },
 
+    // Rollback: the whole Rapier world as raw snapshot bytes; only save files are base64-encoded
+    snapshot: () => physics!.takeSnapshot(),
+    restore: (_ctx, state) => physics!.restoreSnapshot(state as PhysicsSnapshot),
+
     destroy() {
+      offSave?.()
+      offBegin?.()
+      offEnd?.()
       const d = (physics as any)?.dispose as (() => void) | undefined
       try { d?.() } finally { physics = undefined }
     },
@@ -1,6 +1,6 @@
 import type { Vec2, Transform, BodyId, Material } from '../../engine/core/primitives'
 import type {
-  PhysicsService,
+  PhysicsService, PhysicsState, PhysicsSnapshot,
   BodyOpts, BodyType, Shape, ShapeBox, ShapeCircle, ShapeCapsule,
 } from './types'
 
@@ -17,6 +17,21 @@ const AE_INTERSECTION: number = AE?.INTERSECTION_EVENTS ?? 0;
 const toRapier = (p: Vec2) => new RAPIER.Vector2(p.x, p.y);
 const fromRapier = (v2: { x: number; y: number }): Vec2 => ({ x: v2.x, y: v2.y });
 
+function toBase64(bytes: Uint8Array): string {
+  let s = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(s);
+}
+
+function fromBase64(b64: string): Uint8Array {
+  const s = atob(b64);
+  const bytes = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i);
+  return bytes;
+}
+
 function toRapierType(t: BodyType): RAPIER.RigidBodyType {
   switch (t) {
     case "dynamic": return RAPIER.RigidBodyType.Dynamic;
@@ -52,8 +67,6 @@ type BodyHandle = {
   fixedRotation: boolean;
 };
 
-let NEXT_ID = 1 as BodyId;
-
 // ------------------------------------------------------------
 // Rapier-backed PhysicsService
 // ------------------------------------------------------------
@@ -64,6 +77,8 @@ export class RapierPhysicsService implements PhysicsService {
 
   private bodies = new Map<BodyId, BodyHandle>();
   private idFromRbHandle = new Map<number, BodyId>();
+  /** Id of the next body created; part of the saved state so restored ids stay stable. */
+  private nextId = 1 as BodyId;
 
   // Contact event system
   private eventQueue: RAPIER.EventQueue | undefined;
@@ -187,7 +202,7 @@ export class RapierPhysicsService implements PhysicsService {
       colliders.push(col);
     }
 
-    const id = NEXT_ID++ as BodyId;
+    const id = this.nextId++ as BodyId;
     this.bodies.set(id, {
       rb,
       colliders,
@@ -466,6 +481,71 @@ export class RapierPhysicsService implements PhysicsService {
     return { time: this.time, bodies };
   }
 
+  // ──────────────────────────────────────────────────────────
+  // Persistence
+  // ──────────────────────────────────────────────────────────
+  takeSnapshot(): PhysicsSnapshot {
+    const bodies: PhysicsSnapshot["bodies"] = [];
+    for (const [id, h] of this.bodies) {
+      bodies.push({
+        id,
+        handle: h.rb.handle,
+        colliders: h.colliders.map(c => c.handle),
+        type: h.type,
+        userData: h.userData,
+        allowSleep: h.allowSleep,
+        gravityScale: h.gravityScale,
+        fixedRotation: h.fixedRotation,
+      });
+    }
+    return {
+      time: this.time,
+      gravity: { ...this.gravity },
+      nextId: this.nextId,
+      world: this.world.takeSnapshot(),
+      bodies,
+    };
+  }
+
+  saveState(): PhysicsState {
+    const snap = this.takeSnapshot();
+    return { ...snap, world: toBase64(snap.world) };
+  }
+
+  loadState(state: PhysicsState): void {
+    this.restoreSnapshot({ ...state, world: fromBase64(state.world) });
+  }
+
+  restoreSnapshot(state: PhysicsSnapshot): void {
+    const world = RAPIER.World.restoreSnapshot(state.world);
+    if (!world) throw new Error("Physics: could not restore world snapshot");
+    this.world.free();
+    this.world = world;
+    this.time = state.time;
+    this.gravity = { ...state.gravity };
+
+    // Handles survive the snapshot; re-resolve the wrappers against the new world
+    this.bodies.clear();
+    this.idFromRbHandle.clear();
+    for (const b of state.bodies) {
+      this.bodies.set(b.id as BodyId, {
+        rb: world.getRigidBody(b.handle),
+        colliders: b.colliders.map(c => world.getCollider(c)),
+        type: b.type,
+        userData: b.userData,
+        allowSleep: b.allowSleep,
+        gravityScale: b.gravityScale,
+        fixedRotation: b.fixedRotation,
+      });
+      this.idFromRbHandle.set(b.handle, b.id as BodyId);
+    }
+    this.nextId = state.nextId as BodyId;
+
+    // Drop events queued against the old world
+    const EQ: any = (RAPIER as any).EventQueue;
+    if (EQ) this.eventQueue = new EQ(true);
+  }
+
   // ──────────────────────────────────────────────────────────
   // Internals
   // ──────────────────────────────────────────────────────────
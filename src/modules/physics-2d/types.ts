@@ -217,6 +217,75 @@ export interface PhysicsExtras extends PhysicsReadPort, PhysicsWritePort, Physic
    * @returns `true` if set; `false` if body unknown.
    */
   setUserData<T = unknown>(id: BodyId, data: T): boolean;
+
+  // ---------------------------------------------------------------------------
+  // Persistence
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Capture the complete simulation (world, bodies, ids, user data) as JSON-safe data.
+   * @remarks
+   * - Includes contact and solver state, so stepping a loaded state reproduces the original run.
+   * - User data must be JSON-serializable to survive a save file.
+   */
+  saveState(): PhysicsState;
+
+  /**
+   * Replace the simulation with a state captured by {@link PhysicsExtras.saveState}.
+   * @remarks
+   * - Body ids are preserved; bodies created since the capture are gone.
+   * - Contact listeners stay subscribed.
+   * @throws {Error} If the world snapshot cannot be decoded.
+   */
+  loadState(state: PhysicsState): void;
+
+  /**
+   * Capture the complete simulation like {@link PhysicsExtras.saveState}, keeping the
+   * backend world snapshot as raw bytes.
+   * @remarks
+   * Cheaper than `saveState()` (no base64 encoding), for in-memory use such as rollback.
+   * The result is not JSON-safe.
+   */
+  takeSnapshot(): PhysicsSnapshot;
+
+  /**
+   * Replace the simulation with a state captured by {@link PhysicsExtras.takeSnapshot}.
+   * @remarks Same behaviour as {@link PhysicsExtras.loadState}.
+   * @throws {Error} If the world snapshot cannot be restored.
+   */
+  restoreSnapshot(state: PhysicsSnapshot): void;
+}
+
+/**
+ * In-memory physics simulation produced by {@link PhysicsExtras.takeSnapshot}.
+ */
+export type PhysicsSnapshot = Omit<PhysicsState, "world"> & {
+  /** Backend world snapshot, as returned by `World.takeSnapshot()`. */
+  world: Uint8Array;
+};
+
+/**
+ * Serialized physics simulation produced by {@link PhysicsExtras.saveState}.
+ */
+export interface PhysicsState {
+  /** Accumulated simulation time (seconds). */
+  time: number;
+  gravity: { x: number; y: number };
+  /** Next body id to hand out. */
+  nextId: number;
+  /** Backend world snapshot, base64-encoded. */
+  world: string;
+  /** Per-body bookkeeping not stored in the backend snapshot. */
+  bodies: {
+    id: number;
+    handle: number;
+    colliders: number[];
+    type: BodyType;
+    userData?: unknown;
+    allowSleep: boolean;
+    gravityScale: number;
+    fixedRotation: boolean;
+  }[];
 }
 
 /**
@@ -21,6 +21,11 @@
  * - A debug panel is registered to visualize pointer state, including logical coordinates, held buttons, wheel movement, and pointer lock status.
  * - Pointer events are mapped to logical coordinates using the surface's `toLogical` method.
  * - The module draws a visual pointer indicator on the surface using the `DrawServicePort`, if available.
+ * - Live input is ignored while an `INPUT_REPLAY` service is playing back a recording; buttons held
+ *   when playback starts get an `input/pointerup` so they don't stay down.
+ * - With the config module, `pointerLock` and `disableContextMenu` come from the `input/pointer`
+ *   config section ({@link POINTER_INPUT_CONFIG}), which can override these options and
+ *   changes them live.
  *
  * @example
  * ```typescript
@@ -33,12 +38,14 @@
 
 import type { Module, GameContext, DebugPanel } from "../../engine/core/Types";
 import type { DrawServicePort, InputSurfacePort } from "../../engine/core/ports";
-import { DRAW_ALL, INPUT_SURFACE } from "../../engine/core/tokens";
+import { CONFIG, DRAW_ALL, INPUT_REPLAY, INPUT_SURFACE } from "../../engine/core/tokens";
 import { Colours } from "../../util/colour";
-import { Options } from "./types";
+import { Options, POINTER_INPUT_CONFIG } from "./types";
+
+export { POINTER_INPUT_CONFIG } from "./types";
 
 export default function PointerInput(opts: Options = {}): Module {
-  const { pointerLock = false, disableContextMenu = true } = opts;
+  let { pointerLock = false, disableContextMenu = true } = opts;
 
   // Bound surface (published by the renderer)
   let surface: InputSurfacePort | undefined;
@@ -118,8 +125,10 @@ export default function PointerInput(opts: Options = {}): Module {
 
   function bind(ctx: GameContext, s: InputSurfacePort) {
     const el = s.element as unknown as HTMLElement;
+    const replaying = () => ctx.services.get(INPUT_REPLAY)?.state === "playing";
 
     onPointerDown = (e) => {
+      if (replaying()) return;
       const { x, y } = s.toLogical(e.clientX, e.clientY);
       lastX = x;
       lastY = y;
@@ -145,6 +154,7 @@ export default function PointerInput(opts: Options = {}): Module {
     };
 
     onPointerUp = (e) => {
+      if (replaying()) return;
       const { x, y } = s.toLogical(e.clientX, e.clientY);
       lastX = x;
       lastY = y;
@@ -166,6 +176,7 @@ export default function PointerInput(opts: Options = {}): Module {
     };
 
     onPointerMove = (e) => {
+      if (replaying()) return;
       lastEventType = "pointermove";
       const locked = document.pointerLockElement === (el as Element);
 
@@ -212,6 +223,7 @@ export default function PointerInput(opts: Options = {}): Module {
     };
 
     onWheel = (e) => {
+      if (replaying()) return;
       const { x, y } = s.toLogical(e.clientX, e.clientY);
       e.preventDefault();
       lastWheelDX = e.deltaX;
@@ -276,9 +288,24 @@ export default function PointerInput(opts: Options = {}): Module {
 
   return {
     id: "input/pointer",
+    requires: [INPUT_SURFACE],
 
     start(ctx) {
       ctx.bus.emit({ type: "debug/panel/register", panel: debugPanel });
+      ctx.bus.on("replay/started", () => {
+        lastEventType = "replay started";
+        clearAll(ctx);
+      });
+
+      const config = ctx.services.get(CONFIG);
+      if (config) {
+        ({ pointerLock, disableContextMenu } = config.get(POINTER_INPUT_CONFIG, opts));
+        ctx.scope.defer(config.watch(POINTER_INPUT_CONFIG, (now) => {
+          ({ pointerLock, disableContextMenu } = now);
+          const el = surface?.element as unknown as Element | undefined;
+          if (!pointerLock && el && document.pointerLockElement === el) document.exitPointerLock?.();
+        }, opts));
+      }
 
       draw = ctx.services.get(DRAW_ALL);
       if (!draw) {
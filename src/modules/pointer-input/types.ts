@@ -1,6 +1,20 @@
+import { defineConfig } from "../../engine/core/Config";
+
 export type Options = {
   /** If true, request pointer lock on first pointerdown. */
   pointerLock?: boolean;
   /** Prevent context menu on right-click over the element (default true). */
   disableContextMenu?: boolean;
-};
\ No newline at end of file
+};
+
+/**
+ * Pointer settings that can also come from the config file, URL or overrides
+ * (`?input/pointer.pointerLock=1`); they win over the module options and apply live.
+ */
+export const POINTER_INPUT_CONFIG = defineConfig("input/pointer", {
+  pointerLock: false,
+  disableContextMenu: true,
+}, {
+  pointerLock: { description: "Request pointer lock on pointerdown; turning it off releases the lock" },
+  disableContextMenu: { description: "Prevent the context menu on right-click" },
+});
@@ -0,0 +1,56 @@
+/**
+ * Prefab module: reusable object templates defined in JSON and spawned as ECS entities.
+ *
+ * @module modules/prefab
+ *
+ * @param opts.ppm - Pixels per meter for prefabs with `"units": "px"` (default: the camera's ppm).
+ * @returns A module publishing the {@link PrefabPort} under `PREFABS`.
+ *
+ * @remarks
+ * - A prefab describes a body (shapes and materials), a sprite (image, sprite sheet and clip),
+ *   tags and gameplay components; see {@link PrefabDef}.
+ * - `"extends": "crate"` inherits another prefab; objects merge deeply, arrays replace and
+ *   `null` removes an inherited value. `spawn(name, at, overrides)` applies `overrides` the same way.
+ * - Gameplay components must be registered with `component(type, parse?)` before spawning.
+ * - Spawned entities get `TRANSFORM`, `BODY`, `SPRITE`, `ANIMATOR` and `TAGS` as applicable;
+ *   the body's `userData` defaults to `{ entity, tags }`.
+ * - Also answers the `prefab/spawn` request, for modules that only know the bus.
+ *
+ * @example
+ * ```json
+ * {
+ *   "crate": {
+ *     "units": "px",
+ *     "body": { "type": "dynamic", "shapes": [{ "shape": { "type": "box", "hx": 20, "hy": 20 }, "material": "Dirt" }] },
+ *     "tags": ["crate"]
+ *   },
+ *   "bouncy-crate": { "extends": "crate", "components": { "Health": 3 } }
+ * }
+ * ```
+ * ```ts
+ * const prefabs = ctx.services.getOrThrow(PREFABS)
+ * prefabs.component(HEALTH)
+ * await prefabs.load('/assets/prefabs.json')
+ * prefabs.spawn('bouncy-crate', { x: 4, y: 2 }, { components: { Health: 5 } }, 'game/level')
+ * ```
+ */
+
+import type { Module } from '../../engine/core/Types'
+import { ECS, PREFABS } from '../../engine/core/tokens'
+import { createPrefabs } from './service'
+import './types'
+
+export default function Prefabs(opts: { ppm?: number } = {}): Module {
+  return {
+    id: 'prefabs',
+    provides: [PREFABS],
+    requires: [ECS],
+
+    init(ctx) {
+      const prefabs = createPrefabs(ctx, opts)
+      ctx.services.set(PREFABS, prefabs)
+      ctx.bus.handle('prefab/spawn', ({ name, at, overrides, owner }) =>
+        prefabs.spawn(name, at, overrides, owner))
+    },
+  }
+}
@@ -0,0 +1,169 @@
+import type { GameContext } from '../../engine/core/Types'
+import type { ComponentType } from '../../engine/core/Component'
+import type { ComponentInit, PrefabContext, PrefabDef, PrefabPort, PrefabShape } from '../../engine/core/ports'
+import type { Material } from '../../engine/core/primitives'
+import { ECS, PHYSICS_WRITE, CAMERA_2D_READ } from '../../engine/core/tokens'
+import { ANIMATOR, BODY, SPRITE, TAGS, TRANSFORM } from '../../engine/core/components'
+import { Animator } from '../../util/animator'
+import { loadSpriteSheet, type SpriteSheet } from '../../util/spritesheet'
+import { Materials } from '../../util/material'
+
+type Parser = { type: ComponentType<any>; parse?: (json: any, prefab: PrefabContext) => unknown }
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+/**
+ * Deep-merge `over` onto `base`: objects merge, everything else (arrays included) replaces,
+ * and `null` removes the inherited key.
+ */
+function merge<T>(base: T, over: unknown): T {
+  if (!isObject(base) || !isObject(over)) return (over === undefined ? base : over) as T
+  const out: Record<string, unknown> = { ...base }
+  for (const [k, v] of Object.entries(over)) {
+    if (v === null) delete out[k]
+    else out[k] = merge(out[k], v)
+  }
+  return out as T
+}
+
+function scaleShape(shape: PrefabShape, k: (n: number) => number): PrefabShape {
+  const offset = shape.offset && { x: k(shape.offset.x), y: k(shape.offset.y) }
+  switch (shape.type) {
+    case 'box': return { ...shape, hx: k(shape.hx), hy: k(shape.hy), offset }
+    case 'circle': return { ...shape, radius: k(shape.radius), offset }
+    case 'capsule': return { ...shape, halfHeight: k(shape.halfHeight), radius: k(shape.radius), offset }
+  }
+}
+
+function material(m: string | Material | undefined): Material | undefined {
+  if (typeof m !== 'string') return m
+  const found = (Materials as Record<string, Material>)[m]
+  if (!found) throw new Error(`Prefab: unknown material "${m}"`)
+  return found
+}
+
+/**
+ * Create the prefab registry; spawning uses the `ECS`, `PHYSICS_WRITE` and camera services from `ctx`.
+ */
+export function createPrefabs(ctx: GameContext, opts: { ppm?: number }): PrefabPort {
+  const defs = new Map<string, PrefabDef>()
+  const resolved = new Map<string, PrefabDef>()
+  const parsers = new Map<string, Parser>()
+  const sheets = new Map<string, SpriteSheet>()
+
+  function resolveBase(name: string, chain: string[] = []): PrefabDef {
+    const cached = resolved.get(name)
+    if (cached) return cached
+    if (chain.includes(name)) throw new Error(`Prefab: extends cycle: ${[...chain, name].join(' -> ')}`)
+    const def = defs.get(name)
+    if (!def) {
+      throw new Error(chain.length ? `Prefab "${chain[chain.length - 1]}" extends unknown "${name}"` : `Prefab not found: ${name}`)
+    }
+    const out = def.extends ? merge(resolveBase(def.extends, [...chain, name]), def) : def
+    resolved.set(name, out)
+    return out
+  }
+
+  function ppm() {
+    return opts.ppm ?? ctx.services.get(CAMERA_2D_READ)?.get().ppm ?? 50
+  }
+
+  async function preload(def: PrefabDef) {
+    const s = def.sprite
+    if (!s) return
+    const jobs: Promise<unknown>[] = []
+    if (s.image && s.url && !ctx.services.assets.getImage(s.image)) {
+      jobs.push(ctx.services.assets.loadImage(s.image, s.url))
+    }
+    if (s.sheet && !sheets.has(s.sheet)) {
+      const url = s.sheet
+      jobs.push(loadSpriteSheet(url).then(sheet => { sheets.set(url, sheet) }))
+    }
+    await Promise.all(jobs)
+  }
+
+  const port: PrefabPort = {
+    define(next) {
+      for (const [name, def] of Object.entries(next)) defs.set(name, def)
+      resolved.clear()
+    },
+
+    async load(source) {
+      let next = source
+      if (typeof next === 'string') {
+        const res = await fetch(next)
+        if (!res.ok) throw new Error(`Failed to load prefabs: ${next}`)
+        next = (await res.json()) as Record<string, PrefabDef>
+      }
+      port.define(next)
+      await Promise.all(Object.keys(next).map(name => preload(port.resolve(name))))
+    },
+
+    component(type, parse, name = type.name) {
+      parsers.set(name, { type, parse })
+    },
+
+    resolve(name, overrides) {
+      const base = resolveBase(name)
+      return overrides ? merge(base, overrides) : base
+    },
+
+    spawn(name, at, overrides, owner) {
+      const def = port.resolve(name, overrides)
+      const ecs = ctx.services.getOrThrow(ECS)
+      const scale = def.units === 'px' ? 1 / ppm() : 1
+      const prefab: PrefabContext = { name, def, toMeters: (n) => n * scale }
+      const tags = def.tags ?? []
+
+      // Build everything that can fail before creating the entity
+      const components: ComponentInit[] = [[TRANSFORM, { x: at.x, y: at.y, angle: at.angle ?? 0 }]]
+      if (tags.length) components.push([TAGS, [...tags]])
+      if (def.sprite) {
+        const s = def.sprite
+        const image = s.image ? ctx.services.assets.getImage(s.image) : undefined
+        if (!image) throw new Error(`Prefab "${name}": image "${s.image}" is not loaded`)
+        components.push([SPRITE, {
+          image, scale: (s.scale ?? 1) / ppm(), flipX: s.flipX, pass: s.pass, z: s.z,
+        }])
+        if (s.sheet) {
+          const sheet = sheets.get(s.sheet)
+          if (!sheet) throw new Error(`Prefab "${name}": sprite sheet "${s.sheet}" is not loaded`)
+          if (!s.clip) throw new Error(`Prefab "${name}": a sprite sheet needs a clip`)
+          components.push([ANIMATOR, new Animator(sheet, s.clip)])
+        }
+      }
+      for (const [key, json] of Object.entries(def.components ?? {})) {
+        const p = parsers.get(key)
+        if (!p) throw new Error(`Prefab "${name}": unknown component "${key}"`)
+        components.push([p.type, p.parse ? p.parse(json, prefab) : json])
+      }
+
+      let body: { userData?: unknown; [opt: string]: unknown } | undefined
+      if (def.body) {
+        const { shapes = [], material: fallback, ...rest } = def.body
+        body = {
+          ...rest,
+          position: { x: at.x, y: at.y },
+          angle: at.angle ?? 0,
+          shapes: shapes.map(s => ({
+            shape: scaleShape(s.shape, prefab.toMeters),
+            material: material(s.material ?? fallback),
+          })),
+        }
+      }
+
+      const e = ecs.create(components, owner)
+      if (body) {
+        body.userData ??= { entity: e, tags }
+        ecs.add(e, BODY, ctx.services.getOrThrow(PHYSICS_WRITE).createBody(body))
+      }
+      return e
+    },
+
+    has: (name) => defs.has(name),
+    names: () => [...defs.keys()],
+  }
+
+  return port
+}
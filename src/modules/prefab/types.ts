@@ -0,0 +1,15 @@
+import type { EntityId, Vec2 } from '../../engine/core/primitives'
+import type { PrefabDef } from '../../engine/core/ports'
+
+declare module '../../engine/core/Types' {
+  interface GameRequestMap {
+    /**
+     * Spawn a prefab without depending on `PREFABS`; answers the new entity id.
+     * Same arguments as `PrefabPort.spawn`.
+     */
+    'prefab/spawn': {
+      request: { name: string; at: Vec2 & { angle?: number }; overrides?: PrefabDef; owner?: string }
+      response: EntityId
+    }
+  }
+}
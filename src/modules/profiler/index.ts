@@ -0,0 +1,127 @@
+/**
+ * Profiler module: collects per-frame timings and shows them in a debug panel.
+ *
+ * @module modules/profiler
+ *
+ * @param opts - Optional configuration ({@link ProfilerOptions}).
+ * @returns A module publishing the {@link ProfilerPort} under `PROFILER`.
+ *
+ * @remarks
+ * - Once registered, the engine times every module's update and render phases, the whole
+ *   frame and the number of fixed updates per frame. `RenderCoordinator` adds one series
+ *   per pass (`pass:<id>`) and `Physics2D` adds `physics:step`.
+ * - The debug panel lists frame stats and the most expensive series, and draws sparklines
+ *   of frame time, updates per frame and the top module costs.
+ * - Timing itself costs a little; set `profiler.enabled = false` (or leave the module out)
+ *   for release builds.
+ *
+ * @example
+ * ```ts
+ * const prof = ctx.services.getOrThrow(PROFILER)
+ * prof.measure('ai:pathfind', () => planPaths())
+ * console.log(prof.stats('update:physics/2d')?.avg)
+ * ```
+ */
+
+import type { Module, DebugPanel } from '../../engine/core/Types'
+import type { DrawServicePort } from '../../engine/core/ports'
+import type { Colour } from '../../engine/core/primitives'
+import { PROFILER } from '../../engine/core/tokens'
+import { Colours } from '../../util/colour'
+import { createProfiler } from './service'
+import type { ProfilerOptions } from './types'
+
+export type { ProfilerOptions } from './types'
+
+const GRAPH_W = 120
+const GRAPH_H = 22
+const GRAPH_GAP = 14
+const GRAPH_BG: Colour = { r: 0, g: 0, b: 0, a: 0.5 }
+
+export default function Profiler(opts: ProfilerOptions = {}): Module {
+  const { historySize = 120, startEnabled = true, topN = 4 } = opts
+
+  const prof = createProfiler(historySize)
+  prof.enabled = startEnabled
+
+  /** Module and pass series, most expensive (by average) first. */
+  function topSeries(): string[] {
+    return prof.series()
+      .filter(s => s !== 'frame' && s !== 'frame:updates')
+      .map(s => [s, prof.stats(s)?.avg ?? 0] as const)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topN)
+      .map(([s]) => s)
+  }
+
+  function ms(v: number | undefined) {
+    return `${(v ?? 0).toFixed(2)}ms`
+  }
+
+  /** Bar sparkline of `values`, scaled so `ceiling` fills the graph height. */
+  function sparkline(d: DrawServicePort, x: number, y: number, label: string,
+                     values: readonly number[], ceiling: number, colour: Colour) {
+    d.text(label, x, y - 3, Colours.WHITE)
+    d.rect(x, y, GRAPH_W, GRAPH_H, GRAPH_BG)
+    const bw = GRAPH_W / historySize
+    const offset = historySize - values.length
+    for (let i = 0; i < values.length; i++) {
+      const h = Math.min(1, values[i] / ceiling) * GRAPH_H
+      if (h > 0) d.rect(x + (offset + i) * bw, y + GRAPH_H - h, Math.max(1, bw), h, colour)
+    }
+  }
+
+  const panel: DebugPanel = {
+    id: -1004 as any,
+    title: 'Profiler',
+    order: 520,
+    render() {
+      if (!prof.enabled) return ['Profiler disabled (profiler.enabled = true to resume)']
+      const frame = prof.stats('frame')
+      const updates = prof.stats('frame:updates')
+      return [
+        `Frame: ${ms(frame?.last)}  avg ${ms(frame?.avg)}  max ${ms(frame?.max)}`,
+        `Updates/frame: ${updates?.last ?? 0}  avg ${(updates?.avg ?? 0).toFixed(2)}  max ${updates?.max ?? 0}`,
+        '',
+        'Most expensive (avg per frame):',
+        ...topSeries().map(s => `  ${s}: ${ms(prof.stats(s)?.avg)}`),
+      ]
+    },
+    draw(ctx, d) {
+      if (!prof.enabled) return
+      const x = ctx.config.width - GRAPH_W - 8
+      let y = 20
+      const graph = (label: string, series: string, ceiling: number, colour: Colour) => {
+        sparkline(d, x, y, label, prof.history(series), ceiling, colour)
+        y += GRAPH_H + GRAPH_GAP
+      }
+
+      const fixedMs = ctx.services.time.fixedStep * 1000
+      graph(`frame ${ms(prof.stats('frame')?.last)}`, 'frame',
+        Math.max(fixedMs, prof.stats('frame')?.max ?? 0), Colours.GREEN)
+      graph('updates/frame', 'frame:updates',
+        Math.max(1, prof.stats('frame:updates')?.max ?? 0), Colours.CYAN)
+
+      const top = topSeries()
+      const ceiling = Math.max(0.01, ...top.map(s => prof.stats(s)?.max ?? 0))
+      for (const s of top) graph(s, s, ceiling, Colours.ORANGE)
+    },
+  }
+
+  return {
+    id: 'debug/profiler',
+    provides: [PROFILER],
+
+    init(ctx) {
+      ctx.services.set(PROFILER, prof)
+    },
+
+    start(ctx) {
+      ctx.bus.emit({ type: 'debug/panel/register', panel })
+    },
+
+    destroy() {
+      prof.reset()
+    },
+  }
+}
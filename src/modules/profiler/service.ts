@@ -0,0 +1,75 @@
+import type { ProfilerPort, ProfileStats } from '../../engine/core/ports'
+
+/**
+ * Create a profiler that keeps the last `historySize` frames of every series.
+ *
+ * @param historySize - Frames retained per series.
+ * @param now - Clock in milliseconds (defaults to `performance.now`).
+ */
+export function createProfiler(historySize = 120, now = () => performance.now()): ProfilerPort {
+  const histories = new Map<string, number[]>()
+  const current = new Map<string, number>()
+
+  const port: ProfilerPort = {
+    enabled: true,
+
+    beginFrame() {
+      current.clear()
+    },
+
+    endFrame() {
+      if (!port.enabled) return
+      for (const name of current.keys()) {
+        if (!histories.has(name)) histories.set(name, [])
+      }
+      // Series not touched this frame record 0 so all histories stay aligned
+      for (const [name, h] of histories) {
+        h.push(current.get(name) ?? 0)
+        if (h.length > historySize) h.shift()
+      }
+      current.clear()
+    },
+
+    record(series, value) {
+      if (!port.enabled) return
+      current.set(series, (current.get(series) ?? 0) + value)
+    },
+
+    measure(series, fn) {
+      if (!port.enabled) return fn()
+      const t0 = now()
+      try {
+        return fn()
+      } finally {
+        port.record(series, now() - t0)
+      }
+    },
+
+    series() {
+      return [...histories.keys()]
+    },
+
+    history(series) {
+      return histories.get(series) ?? []
+    },
+
+    stats(series): ProfileStats | undefined {
+      const h = histories.get(series)
+      if (!h || h.length === 0) return undefined
+      let min = Infinity, max = -Infinity, sum = 0
+      for (const v of h) {
+        if (v < min) min = v
+        if (v > max) max = v
+        sum += v
+      }
+      return { last: h[h.length - 1], avg: sum / h.length, min, max }
+    },
+
+    reset() {
+      histories.clear()
+      current.clear()
+    },
+  }
+
+  return port
+}
@@ -0,0 +1,8 @@
+export type ProfilerOptions = {
+  /** Frames of history kept per series (default 120) */
+  historySize?: number
+  /** Record from the start; toggle later with `profiler.enabled` (default true) */
+  startEnabled?: boolean
+  /** Number of most expensive module/pass series listed and graphed (default 4) */
+  topN?: number
+}
@@ -9,6 +9,7 @@
  * - Registers a render queue service for other modules to enqueue render items.
  * - Supports configurable render passes, each with its own space ("ui" or "world") and optional camera.
  * - Clears the drawing surface at the start of each frame or before specific passes, as configured.
+ * - Executes the queue in `postRender`, so modules may enqueue from `render` regardless of their order.
  * - Handles both world-space and UI-space rendering, using the appropriate camera and draw context.
  *
  * @param cfg - Optional partial configuration for the RenderCoordinator.
@@ -24,6 +25,7 @@ import type { Camera2DReadPort, DrawServicePort } from "../../engine/core/ports"
 import type { Camera2D, Space } from "../../engine/core/primitives";
 import { DRAW_ALL, CAMERA_2D, RENDER_QUEUE } from "../../engine/core/tokens";
 import { createRenderQueueService } from "./service";
+import { profile } from "../../util/profile";
 
 export default function RenderCoordinator(cfg?: Partial<RenderCoordinatorConfig>): Module {
   const passes = (cfg?.passes ?? DEFAULT_PASSES).slice();
@@ -35,6 +37,8 @@ export default function RenderCoordinator(cfg?: Partial<RenderCoordinatorConfig>
 
   return {
     id: "render/coordinator",
+    provides: [RENDER_QUEUE],
+    requires: [DRAW_ALL, CAMERA_2D],
 
     init(ctx) {
       // Register the queue service so modules can enqueue
@@ -48,9 +52,14 @@ export default function RenderCoordinator(cfg?: Partial<RenderCoordinatorConfig>
       // Get services we need
       draw = ctx.services.getOrThrow(DRAW_ALL);
       defaultCamSvc = ctx.services.getOrThrow(CAMERA_2D);
+
+      // Follow providers that re-publish (e.g. a renderer swapped at runtime)
+      ctx.services.onChange(DRAW_ALL, (d) => { if (d) draw = d; });
+      ctx.services.onChange(CAMERA_2D, (c) => { if (c) defaultCamSvc = c; });
     },
 
-    render(ctx) {
+    // Execute after every module's render() has enqueued its draws
+    postRender(ctx) {
       if (clearEachFrame) draw.clear();
 
       for (const p of passes) {
@@ -59,16 +68,18 @@ export default function RenderCoordinator(cfg?: Partial<RenderCoordinatorConfig>
 
         if (p.clearBefore) draw.clear();
 
-        if (p.space === "world") {
-          const cam = defaultCamSvc.get() as Readonly<Camera2D>;
-          draw.toWorld(cam, () => {
-            for (const it of items) it.draw(draw, cam);
-          });
-        } else {
-          draw.toUi(() => {
-            for (const it of items) it.draw(draw);
-          });
-        }
+        profile(ctx, `pass:${p.id}`, () => {
+          if (p.space === "world") {
+            const cam = defaultCamSvc.get() as Readonly<Camera2D>;
+            draw.toWorld(cam, () => {
+              for (const it of items) it.draw(draw, cam);
+            });
+          } else {
+            draw.toUi(() => {
+              for (const it of items) it.draw(draw);
+            });
+          }
+        });
       }
     },
   };
@@ -48,6 +48,7 @@ export default function RendererCanvas(): Module {
 
   return {
     id: "renderer/canvas",
+    provides: [DRAW_ALL, INPUT_SURFACE],
 
     async init(ctx: GameContext) {
       // Create and mount canvas
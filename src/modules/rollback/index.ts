@@ -0,0 +1,64 @@
+/**
+ * Rollback module: per-step input exchange with prediction, rewind and re-simulation.
+ *
+ * @module modules/rollback
+ *
+ * @param opts - {@link RollbackOptions}: players, transport, input sampler, delay and window.
+ * @returns A module publishing the {@link RollbackPort} under `ROLLBACK`.
+ *
+ * @remarks
+ * - Before every step the engine's state is captured (`SIMULATION.snapshot()`), the local
+ *   input is sampled for `tick + inputDelay` and sent to the other peers.
+ * - Gameplay reads `rollback.input(player)` in fixed-step phases instead of the input
+ *   service. Missing remote input is predicted by repeating the last known value.
+ * - When a late input differs from what was predicted, the next step first restores the
+ *   snapshot of that tick and re-simulates up to the present within the same frame
+ *   (`rollback/rewind`). Inputs older than `maxRollback` steps emit `rollback/desync`.
+ * - Only state captured by {@link Module.snapshot} is rewound (clock, RNG, physics world,
+ *   camera, tweens, timers). Gameplay modules must implement `snapshot`/`restore` too, and
+ *   check `SIMULATION.resimulating` before playing sounds or spawning effects.
+ * - `createLoopback()` connects two engines in one process for tests.
+ *
+ * @example
+ * ```ts
+ * const link = createLoopback<Keys>({ manual: true })
+ * const a = new Engine({ ...cfg, driver: createManualDriver() })
+ *   .add(Physics2D())
+ *   .add(Rollback({ local: 'p1', players: ['p1', 'p2'], transport: link.a, sample: readKeys }))
+ *   .add(Race())
+ * // ... same for `b` with local 'p2' and link.b
+ * a.stepFixed(10); b.stepFixed(10)
+ * link.flush()   // p1's inputs reach p2 late; p2 rolls back on its next step
+ * ```
+ */
+
+import type { Module } from '../../engine/core/Types'
+import { ROLLBACK, SIMULATION } from '../../engine/core/tokens'
+import { createRollback } from './service'
+import type { RollbackOptions } from './types'
+
+export { createLoopback } from './loopback'
+export type { RollbackOptions } from './types'
+
+export default function Rollback<I>(opts: RollbackOptions<I>): Module {
+  let offStep: (() => void) | undefined
+  let offMessage: (() => void) | undefined
+
+  return {
+    id: 'net/rollback',
+    provides: [ROLLBACK],
+
+    init(ctx) {
+      const sim = ctx.services.getOrThrow(SIMULATION)
+      const rollback = createRollback(ctx, sim, opts)
+      ctx.services.set(ROLLBACK, rollback.port)
+      offStep = sim.onBeforeStep(rollback.beforeStep)
+      offMessage = opts.transport.onMessage(rollback.receive)
+    },
+
+    destroy() {
+      offStep?.()
+      offMessage?.()
+    },
+  }
+}
@@ -0,0 +1,43 @@
+import type { RollbackMessage, RollbackTransport } from '../../engine/core/ports'
+
+/**
+ * Two connected in-process transports, for tests and local split-screen sessions.
+ *
+ * @param opts.manual - Hold messages until {@link flush} instead of delivering them
+ *   immediately; use it to simulate late input.
+ */
+export function createLoopback<I = unknown>(opts: { manual?: boolean } = {}) {
+  const queue: [Set<(m: RollbackMessage<I>) => void>, RollbackMessage<I>][] = []
+
+  function end(inbox: Set<(m: RollbackMessage<I>) => void>, outbox: Set<(m: RollbackMessage<I>) => void>) {
+    const transport: RollbackTransport<I> = {
+      send(msg) {
+        queue.push([outbox, msg])
+        if (!opts.manual) flush()
+      },
+      onMessage(fn) {
+        inbox.add(fn)
+        return () => { inbox.delete(fn) }
+      },
+    }
+    return transport
+  }
+
+  /** Deliver every held message, in send order. */
+  function flush() {
+    while (queue.length) {
+      const [to, msg] = queue.shift()!
+      for (const fn of [...to]) fn(msg)
+    }
+  }
+
+  const toA = new Set<(m: RollbackMessage<I>) => void>()
+  const toB = new Set<(m: RollbackMessage<I>) => void>()
+  return {
+    a: end(toA, toB),
+    b: end(toB, toA),
+    flush,
+    /** Messages waiting for {@link flush}. */
+    get pending() { return queue.length },
+  }
+}
@@ -0,0 +1,114 @@
+import type { EngineSnapshot, GameContext } from '../../engine/core/Types'
+import type { RollbackMessage, RollbackPort, SimulationPort } from '../../engine/core/ports'
+import type { RollbackOptions } from './types'
+
+const jsonEquals = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Create the rollback manager; `beforeStep` and `receive` are wired to the engine and
+ * transport by the module.
+ */
+export function createRollback<I>(ctx: GameContext, sim: SimulationPort, opts: RollbackOptions<I>) {
+  if (!opts.players.includes(opts.local)) {
+    throw new Error(`Rollback: local player "${opts.local}" is not in players`)
+  }
+  const delay = Math.max(0, Math.floor(opts.inputDelay ?? 2))
+  const maxRollback = Math.max(1, Math.floor(opts.maxRollback ?? 8))
+  const equals = opts.equals ?? jsonEquals
+  /** Steps of input history kept per player (prediction looks back through it). */
+  const history = delay + maxRollback * 4
+
+  /** Confirmed inputs per player, by tick. */
+  const inputs = new Map(opts.players.map(p => [p, new Map<number, I>()]))
+  /** Remote inputs actually fed to the simulation, by tick, to detect mispredictions. */
+  const used = new Map(opts.players.map(p => [p, new Map<number, I | undefined>()]))
+  /** Highest tick up to which each player's inputs are complete. */
+  const contiguous = new Map(opts.players.map(p => [p, delay - 1]))
+  const snapshots = new Map<number, EngineSnapshot>()
+  let rewindTo: number | undefined
+  const stats = { rollbacks: 0, resimulated: 0 }
+
+  const tick = () => ctx.services.time.tick
+
+  function lookup(player: string, t: number): { input: I | undefined; predicted: boolean } {
+    const buf = inputs.get(player)
+    if (!buf) throw new Error(`Rollback: unknown player "${player}"`)
+    if (buf.has(t)) return { input: buf.get(t), predicted: false }
+    // Repeat the most recent known input
+    for (let k = t - 1; k >= t - history && k >= 0; k--) {
+      if (buf.has(k)) return { input: buf.get(k), predicted: true }
+    }
+    return { input: undefined, predicted: t >= delay }
+  }
+
+  function receive(msg: RollbackMessage<I>) {
+    const buf = inputs.get(msg.player)
+    if (!buf || msg.player === opts.local) return
+    buf.set(msg.tick, msg.input)
+    let c = contiguous.get(msg.player)!
+    while (buf.has(c + 1)) c++
+    contiguous.set(msg.player, c)
+
+    // Later steps predicted from an older input are rechecked when re-simulated
+    const u = used.get(msg.player)!
+    if (!u.has(msg.tick) || equals(u.get(msg.tick), msg.input)) return
+    if (snapshots.has(msg.tick)) {
+      rewindTo = Math.min(rewindTo ?? Infinity, msg.tick)
+    } else {
+      ctx.bus.emit({ type: 'rollback/desync', player: msg.player, tick: msg.tick })
+    }
+  }
+
+  function beforeStep(t: number) {
+    if (!sim.resimulating) {
+      if (rewindTo !== undefined && rewindTo < t) {
+        const from = rewindTo
+        rewindTo = undefined
+        sim.restore(snapshots.get(from)!)
+        sim.resimulate(t - from)
+        stats.rollbacks++
+        stats.resimulated += t - from
+        ctx.bus.emit({ type: 'rollback/rewind', tick: from, steps: t - from })
+      }
+      rewindTo = undefined
+
+      const msg: RollbackMessage<I> = { player: opts.local, tick: t + delay, input: opts.sample(ctx) }
+      inputs.get(opts.local)!.set(msg.tick, msg.input)
+      contiguous.set(opts.local, msg.tick)
+      opts.transport.send(msg)
+      prune(t)
+    }
+    snapshots.set(t, sim.snapshot())
+  }
+
+  function prune(t: number) {
+    snapshots.delete(t - maxRollback - 1)
+    for (const m of [...inputs.values(), ...used.values()]) {
+      for (const k of m.keys()) {
+        if (k < t - history) m.delete(k)
+      }
+    }
+  }
+
+  const port: RollbackPort<I> = {
+    local: opts.local,
+    players: [...opts.players],
+
+    input(player) {
+      const t = tick()
+      const { input } = lookup(player, t)
+      if (player !== opts.local) used.get(player)!.set(t, input)
+      return input
+    },
+
+    predicted: (player) => lookup(player, tick()).predicted,
+
+    get confirmedTick() {
+      return Math.min(...contiguous.values())
+    },
+
+    stats,
+  }
+
+  return { port, beforeStep, receive }
+}
@@ -0,0 +1,28 @@
+import type { GameContext } from '../../engine/core/Types'
+import type { RollbackTransport } from '../../engine/core/ports'
+
+export type RollbackOptions<I> = {
+  /** This peer's player id */
+  local: string
+  /** Every player id in the session, including `local`; the same list on every peer */
+  players: string[]
+  /** Connection to the other peers */
+  transport: RollbackTransport<I>
+  /** Read the local input; called once per new (not re-simulated) step */
+  sample: (ctx: GameContext) => I
+  /** Steps between sampling local input and using it, hiding latency (default 2; same on every peer) */
+  inputDelay?: number
+  /** Furthest back, in steps, a late input can still be corrected (default 8) */
+  maxRollback?: number
+  /** Input comparison (default: JSON equality) */
+  equals?: (a: I | undefined, b: I | undefined) => boolean
+}
+
+declare module '../../engine/core/Types' {
+  interface GameEventMap {
+    /** Rewound to `tick` and re-simulated `steps` steps to apply late input. */
+    'rollback/rewind': { tick: number; steps: number };
+    /** `player`'s input for `tick` arrived too late to roll back to; peers may now disagree. */
+    'rollback/desync': { player: string; tick: number };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Save module: versioned save slots built from per-module serializable state.
+ *
+ * @module modules/save
+ *
+ * @param opts - {@link SaveOptions} (storage backend, game save version, file migrations).
+ * @returns A module publishing the {@link SavePort} under `SAVE`.
+ *
+ * @remarks
+ * - Modules contribute by registering `serialize()` / `deserialize()` under a key, usually
+ *   their id; the built-in `engine` section holds the fixed-step clock and the RNG.
+ * - Each section carries its own schema version; contributors upgrade old data in `migrate`.
+ *   Game-wide reshuffles go in `opts.migrations`, keyed by the version they upgrade from.
+ * - Scheduler timers and tweens hold closures and are not saved: contributors that own
+ *   them restart them from their own restored state in `deserialize`.
+ * - Backends: `localStorageSaves()`, `indexedDbSaves()` and `memorySaves()` from `./storage`,
+ *   or any {@link SaveStorage}.
+ *
+ * @example
+ * ```ts
+ * // In a module's start()
+ * off = ctx.services.get(SAVE)?.register('game/score', {
+ *   version: 2,
+ *   serialize: () => ({ score, lives }),
+ *   deserialize: (d) => { score = d.score; lives = d.lives },
+ *   migrate: (d: any) => ({ score: d.points, lives: 3 }),
+ * })
+ *
+ * // From a menu
+ * await ctx.services.getOrThrow(SAVE).save('slot-1', { level: 'forest' })
+ * await ctx.services.getOrThrow(SAVE).load('slot-1')
+ * ```
+ */
+
+import type { Module } from '../../engine/core/Types'
+import type { SavePort, SaveStorage } from '../../engine/core/ports'
+import { SAVE } from '../../engine/core/tokens'
+import { createSaves } from './service'
+import { localStorageSaves, memorySaves } from './storage'
+import type { SaveOptions } from './types'
+
+export { indexedDbSaves, localStorageSaves, memorySaves } from './storage'
+export type { SaveOptions } from './types'
+
+export default function Save(opts: SaveOptions = {}): Module {
+  let saves: SavePort | undefined
+  let offEngine: (() => void) | undefined
+
+  function defaultStorage(): SaveStorage {
+    return typeof localStorage === 'undefined' ? memorySaves() : localStorageSaves()
+  }
+
+  return {
+    id: 'save',
+    provides: [SAVE],
+
+    init(ctx) {
+      const { time, rng } = ctx.services
+      saves = createSaves({
+        storage: opts.storage ?? defaultStorage(),
+        version: opts.version ?? 1,
+        migrations: opts.migrations ?? {},
+        tick: () => time.tick,
+        onSaved: (file, slot) => ctx.bus.emit({ type: 'save/saved', slot, tick: file.tick }),
+        onLoaded: (file, slot) => ctx.bus.emit({ type: 'save/loaded', slot, tick: file.tick }),
+      })
+      ctx.services.set(SAVE, saves)
+
+      offEngine = saves.register('engine', {
+        serialize: () => ({
+          tick: time.tick,
+          simTime: time.simTime,
+          accumulator: time.accumulator,
+          rng: rng.getState(),
+        }),
+        deserialize(d) {
+          time.tick = d.tick
+          time.simTime = d.simTime
+          time.accumulator = d.accumulator
+          rng.setState(d.rng)
+        },
+      })
+    },
+
+    destroy() {
+      offEngine?.()
+      saves = undefined
+    },
+  }
+}
@@ -0,0 +1,95 @@
+import type { SaveContributor, SaveFile, SavePort, SaveStorage } from '../../engine/core/ports'
+
+type Hooks = {
+  storage: SaveStorage
+  version: number
+  migrations: Record<number, (file: SaveFile) => SaveFile>
+  /** Current fixed tick, stamped on captured files. */
+  tick: () => number
+  onSaved: (file: SaveFile, slot: string) => void
+  onLoaded: (file: SaveFile, slot?: string) => void
+}
+
+/**
+ * Create the save service over `hooks.storage`; contributors are kept in registration order.
+ */
+export function createSaves(hooks: Hooks): SavePort {
+  const contributors = new Map<string, SaveContributor<any>>()
+
+  function migrateFile(file: SaveFile): SaveFile {
+    if (file.format !== 1) throw new Error(`Unsupported save format: ${String(file.format)}`)
+    if (file.version > hooks.version) {
+      throw new Error(`Save version ${file.version} is newer than the game (${hooks.version})`)
+    }
+    let out = file
+    for (let v = file.version; v < hooks.version; v++) {
+      const step = hooks.migrations[v]
+      if (step) out = step(out)
+      out = { ...out, version: v + 1 }
+    }
+    return out
+  }
+
+  function migrateSection(key: string, c: SaveContributor, section: { version: number; data: unknown }) {
+    const version = c.version ?? 1
+    if (section.version === version) return section.data
+    if (section.version > version) {
+      throw new Error(`Save section "${key}" v${section.version} is newer than its module (v${version})`)
+    }
+    if (!c.migrate) throw new Error(`Save section "${key}" v${section.version} needs a migration to v${version}`)
+    return c.migrate(section.data, section.version)
+  }
+
+  function restore(file: SaveFile, slot?: string) {
+    const migrated = migrateFile(file)
+    // Migrate everything before touching live state, so a bad section leaves the game untouched
+    const pending: [SaveContributor, unknown][] = []
+    for (const [key, c] of contributors) {
+      const section = migrated.sections[key]
+      if (section) pending.push([c, migrateSection(key, c, section)])
+    }
+    for (const [c, data] of pending) c.deserialize(data)
+    hooks.onLoaded(migrated, slot)
+  }
+
+  const port: SavePort = {
+    register(key, contributor) {
+      if (contributors.has(key)) throw new Error(`Save contributor already registered: ${key}`)
+      contributors.set(key, contributor)
+      return () => {
+        if (contributors.get(key) === contributor) contributors.delete(key)
+      }
+    },
+
+    capture(meta) {
+      const sections: SaveFile['sections'] = {}
+      for (const [key, c] of contributors) {
+        // Round-trip through JSON so live objects can't leak into the file
+        sections[key] = { version: c.version ?? 1, data: JSON.parse(JSON.stringify(c.serialize())) }
+      }
+      return { format: 1, version: hooks.version, savedAt: Date.now(), tick: hooks.tick(), meta, sections }
+    },
+
+    restore: (file) => restore(file),
+
+    async save(slot, meta) {
+      const file = port.capture(meta)
+      await hooks.storage.write(slot, file)
+      hooks.onSaved(file, slot)
+      return file
+    },
+
+    async load(slot) {
+      const file = await hooks.storage.read(slot)
+      if (!file) return false
+      restore(file, slot)
+      return true
+    },
+
+    peek: (slot) => hooks.storage.read(slot),
+    remove: (slot) => hooks.storage.remove(slot),
+    slots: () => hooks.storage.list(),
+  }
+
+  return port
+}
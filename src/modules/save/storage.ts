@@ -0,0 +1,76 @@
+import type { SaveFile, SaveStorage } from '../../engine/core/ports'
+
+/**
+ * In-memory slots; lost on reload. Useful for tests, headless runs and quick-save.
+ */
+export function memorySaves(): SaveStorage {
+  const slots = new Map<string, string>()
+
+  return {
+    async read(slot) {
+      const raw = slots.get(slot)
+      return raw === undefined ? undefined : JSON.parse(raw) as SaveFile
+    },
+    async write(slot, file) { slots.set(slot, JSON.stringify(file)) },
+    async remove(slot) { slots.delete(slot) },
+    async list() { return [...slots.keys()] },
+  }
+}
+
+/**
+ * Slots stored as JSON strings in `localStorage` under `prefix + slot`.
+ * @param prefix - Key prefix separating this game's slots (default `'save:'`).
+ */
+export function localStorageSaves(prefix = 'save:'): SaveStorage {
+  return {
+    async read(slot) {
+      const raw = localStorage.getItem(prefix + slot)
+      return raw === null ? undefined : JSON.parse(raw) as SaveFile
+    },
+    async write(slot, file) { localStorage.setItem(prefix + slot, JSON.stringify(file)) },
+    async remove(slot) { localStorage.removeItem(prefix + slot) },
+    async list() {
+      const out: string[] = []
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (key?.startsWith(prefix)) out.push(key.slice(prefix.length))
+      }
+      return out
+    },
+  }
+}
+
+/**
+ * Slots stored as structured objects in an IndexedDB object store; suited to large saves.
+ * @param dbName - Database name (default `'saves'`).
+ * @param storeName - Object store name (default `'slots'`).
+ */
+export function indexedDbSaves(dbName = 'saves', storeName = 'slots'): SaveStorage {
+  let db: Promise<IDBDatabase> | undefined
+
+  function open() {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(dbName, 1)
+      req.onupgradeneeded = () => req.result.createObjectStore(storeName)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    return db
+  }
+
+  async function run<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) {
+    const store = (await open()).transaction(storeName, mode).objectStore(storeName)
+    return new Promise<T>((resolve, reject) => {
+      const req = op(store)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+  }
+
+  return {
+    read: (slot) => run<SaveFile | undefined>('readonly', s => s.get(slot)),
+    async write(slot, file) { await run('readwrite', s => s.put(file, slot)) },
+    async remove(slot) { await run('readwrite', s => s.delete(slot)) },
+    async list() { return (await run('readonly', s => s.getAllKeys())).map(String) },
+  }
+}
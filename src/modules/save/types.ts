@@ -0,0 +1,22 @@
+import type { SaveFile, SaveStorage } from '../../engine/core/ports'
+
+export type SaveOptions = {
+  /** Where slots are written (default `localStorageSaves()`, or `memorySaves()` where localStorage is missing) */
+  storage?: SaveStorage
+  /** Game save version stamped on new files (default 1) */
+  version?: number
+  /**
+   * Whole-file migrations keyed by the version they upgrade from (`1` turns a v1 file into v2).
+   * Run in order before per-section `migrate` hooks; use them to rename or split sections.
+   */
+  migrations?: Record<number, (file: SaveFile) => SaveFile>
+}
+
+declare module '../../engine/core/Types' {
+  interface GameEventMap {
+    /** A save file was written to `slot`. */
+    'save/saved': { slot: string; tick: number }
+    /** A save file was restored; `slot` is absent for direct `restore()` calls. */
+    'save/loaded': { slot?: string; tick: number }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * SceneManager module: a stack of scenes, each owning its own modules and services.
+ *
+ * @module modules/scene-manager
+ *
+ * @param opts - Scene definitions and the optional initial scene.
+ * @returns A module that publishes the {@link ScenePort} under the `SCENES` token.
+ *
+ * @remarks
+ * - Scene modules are regular {@link Module}s. They are initialized and started when
+ *   their scene is entered and destroyed when it exits. Each gets its own scoped context,
+ *   so their bus subscriptions, services and scope resources are released on exit, and
+ *   `engine/moduleRemoved` is emitted for each of them.
+ * - Services registered by a scene's modules live in that scene's own registry: they see
+ *   the engine's services, but the engine and other scenes don't see theirs.
+ * - Only scenes that are not paused receive the fixed-step phases (`preUpdate` … `lateUpdate`)
+ *   and `onEvent`. A scene with
+ *   `pauseBelow` (the default) pauses everything underneath it, e.g. a pause menu over gameplay.
+ * - All scenes render (`render`, then `postRender`) bottom to top, unless a scene sets `hideBelow`.
+ * - Each scene module hook runs in its own error boundary, like the engine's modules: a
+ *   throwing module gets its `FaultPolicy` applied and is reported as
+ *   `engine/moduleError` under its own id, while the rest of the scene keeps running.
+ *   With a profiler enabled, its phases are timed as `<phase>:<module id>`.
+ * - Emits `scene/enter`, `scene/exit`, `scene/pause` and `scene/resume` on the bus, and
+ *   answers the `scene/isActive` request.
+ *
+ * @example
+ * ```ts
+ * engine.add(SceneManager({
+ *   initial: 'menu',
+ *   scenes: [
+ *     { id: 'menu',    modules: () => [MainMenu()] },
+ *     { id: 'race',    modules: () => [Race(), Hud()] },
+ *     { id: 'pause',   modules: () => [PauseMenu()] },            // pauses 'race'
+ *     { id: 'results', modules: () => [Results()], hideBelow: true },
+ *   ],
+ * }))
+ *
+ * // elsewhere, via the service:
+ * const scenes = ctx.services.getOrThrow(SCENES)
+ * await scenes.replace('race')
+ * await scenes.push('pause')
+ * ```
+ */
+
+import type { Module, GameContext, GameEvent, UpdatePhase, RenderPhase } from '../../engine/core/Types'
+import { PROFILER, SCENES } from '../../engine/core/tokens'
+import { errorReporter } from '../../util/log'
+import { createSceneStack, type ActiveScene } from './service'
+import type { SceneManagerOptions } from './types'
+
+export type { SceneDef, SceneManagerOptions } from './types'
+
+export default function SceneManager(opts: SceneManagerOptions): Module {
+  let scenes: ReturnType<typeof createSceneStack> | undefined
+
+  /**
+   * Run a phase hook of one scene module inside its error boundary, timed under
+   * `<phase>:<module id>` when a profiler is enabled.
+   */
+  function run(ctx: GameContext, s: ActiveScene, j: number, phase: UpdatePhase | RenderPhase, arg: number) {
+    const m = s.modules[j]
+    if (!m[phase] || s.disabled.has(m)) return
+    const mctx = s.contexts[j]
+    const call = () => m[phase]!(mctx, arg)
+    const prof = ctx.services.get(PROFILER)
+    scenes!.guard(s, j, phase, prof?.enabled ? () => prof.measure(`${phase}:${m.id}`, call) : call)
+  }
+
+  /** Run a fixed-step phase on the modules of every scene that isn't paused. */
+  function step(ctx: GameContext, phase: UpdatePhase, dt: number) {
+    for (const s of scenes!.stack) {
+      if (s.paused) continue
+      for (let j = 0; j < s.modules.length; j++) run(ctx, s, j, phase, dt)
+    }
+  }
+
+  /** Run a render phase on the visible scenes, bottom to top. */
+  function draw(ctx: GameContext, phase: RenderPhase, alpha: number) {
+    const stack = scenes!.stack
+    let from = 0
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].def.hideBelow) { from = i; break }
+    }
+    for (let i = from; i < stack.length; i++) {
+      const s = stack[i]
+      for (let j = 0; j < s.modules.length; j++) run(ctx, s, j, phase, alpha)
+    }
+  }
+
+  return {
+    id: 'scene/manager',
+    provides: [SCENES],
+
+    init(ctx) {
+      scenes = createSceneStack(ctx, opts.scenes)
+      ctx.services.set(SCENES, scenes.port)
+      ctx.bus.handle('scene/isActive', ({ id }) => scenes!.port.stack().includes(id))
+    },
+
+    async start(ctx) {
+      if (!opts.initial) return
+      try {
+        await scenes!.port.push(opts.initial, opts.initialData)
+      } catch (error) {
+        // A broken scene shouldn't take the manager (and every other scene) down with it
+        errorReporter(ctx, 'scene/manager')('initial scene failed to enter', { scene: opts.initial, error })
+      }
+    },
+
+    preUpdate: (ctx, dt) => step(ctx, 'preUpdate', dt),
+    update: (ctx, dt) => step(ctx, 'update', dt),
+    postUpdate: (ctx, dt) => step(ctx, 'postUpdate', dt),
+    lateUpdate: (ctx, dt) => step(ctx, 'lateUpdate', dt),
+
+    render: (ctx, alpha) => draw(ctx, 'render', alpha),
+    postRender: (ctx, alpha) => draw(ctx, 'postRender', alpha),
+
+    onEvent(_ctx: GameContext, e: GameEvent) {
+      for (const s of scenes?.stack ?? []) {
+        if (s.paused) continue
+        for (const [j, m] of s.modules.entries()) {
+          if (!m.onEvent || s.disabled.has(m)) continue
+          scenes!.guard(s, j, 'onEvent', () => m.onEvent!(s.contexts[j], e))
+        }
+      }
+    },
+
+    destroy() {
+      scenes?.clear()
+      scenes = undefined
+    },
+  }
+}
@@ -0,0 +1,239 @@
+import type { FaultPolicy, GameContext, Module, ModuleHook } from '../../engine/core/Types'
+import type { ScenePort } from '../../engine/core/ports'
+import { errorReporter } from '../../util/log'
+import { sortModules } from '../../engine/core/ModuleGraph'
+import { scopeContext } from '../../engine/core/Scope'
+import type { SceneDef } from './types'
+
+/** A scene on the stack with its live modules and contexts. */
+export type ActiveScene = {
+  def: SceneDef
+  modules: Module[]
+  /** Scoped context of each module, by index in `modules`; disposed on exit. */
+  contexts: GameContext[]
+  /**
+   * Context of the scene's own hooks (`onEnter`, `onExit`, ...), disposed last. Its
+   * registry is a child of the engine's, so services the scene registers stay in the scene.
+   */
+  ctx: GameContext
+  paused: boolean
+  /** Modules skipped by the fixed-step, render and event hooks after a fault. */
+  disabled: Set<Module>
+}
+
+/** Context of a scene's hooks, with a registry of its own on top of the engine's. */
+function sceneContext(ctx: GameContext, id: string): GameContext {
+  const scoped = scopeContext(ctx, `scene:${id}`)
+  return { ...scoped, services: scoped.services.child() }
+}
+
+/**
+ * Create the scene stack and the {@link ScenePort} that drives it.
+ *
+ * @param ctx - Engine context shared by all scenes (bus, config, parent services).
+ * @param defs - Known scene definitions.
+ */
+export function createSceneStack(ctx: GameContext, defs: SceneDef[]) {
+  const byId = new Map(defs.map(d => [d.id, d]))
+  const stack: ActiveScene[] = []
+  /** Restart attempts of each faulted scene module. */
+  const restarts = new WeakMap<Module, number>()
+
+  // Transitions run strictly one after another
+  let queue: Promise<void> = Promise.resolve()
+  const enqueue = (fn: () => Promise<void>) => {
+    const next = queue.then(fn)
+    queue = next.catch(() => {})
+    return next
+  }
+
+  /**
+   * Set up scene `id` and put it on the stack.
+   * @param replacing - Take the place of the top scene. The old scene only exits once the
+   * new one has entered, so a failed enter leaves the stack as it was.
+   */
+  async function enter(id: string, data: unknown, replacing = false) {
+    const def = byId.get(id)
+    if (!def) throw new Error(`Unknown scene: ${id}`)
+
+    const replaced = replacing && stack.length > 0
+    const sceneCtx = sceneContext(ctx, id)
+    const scene: ActiveScene = { def, modules: [], contexts: [], ctx: sceneCtx, paused: false, disabled: new Set() }
+    let initialized = 0
+    let pausedBelow = false
+    try {
+      scene.modules = sortModules(def.modules(), sceneCtx.services)
+      scene.contexts = scene.modules.map(m => scopeContext(sceneCtx, m.id))
+      for (; initialized < scene.modules.length; initialized++) {
+        await scene.modules[initialized].init?.(scene.contexts[initialized])
+      }
+      for (let i = 0; i < scene.modules.length; i++) await scene.modules[i].start?.(scene.contexts[i])
+
+      // Only pause the scene below once the new one is ready to take over
+      if (!replaced && def.pauseBelow !== false) pausedBelow = pauseTop()
+
+      await def.onEnter?.(sceneCtx, data)
+    } catch (err) {
+      // Leave things as they were before the transition
+      try {
+        teardown(scene, initialized)
+      } catch (cleanupErr) {
+        logError(`Error cleaning up scene ${id} after a failed enter`, { scene: id, error: cleanupErr })
+      }
+      for (const m of scene.modules.slice(0, initialized)) ctx.bus.emit({ type: 'engine/moduleRemoved', id: m.id })
+      if (pausedBelow) resumeTop()
+      throw err
+    }
+    if (replaced) {
+      await exit()
+      // The old scene may have paused the one below; the new one decides now
+      if (def.pauseBelow !== false) pauseTop()
+      else resumeTop()
+    }
+    stack.push(scene)
+    ctx.bus.emit({ type: 'scene/enter', id })
+  }
+
+  async function exit() {
+    const scene = stack.pop()
+    if (!scene) return
+    try {
+      await scene.def.onExit?.(scene.ctx)
+    } catch (err) {
+      // The scene is leaving regardless; finish the transition
+      logError(`Error in onExit of scene ${scene.def.id}`, { scene: scene.def.id, error: err })
+    }
+    teardown(scene)
+    // Let owner-keyed resources (timers, ...) of the scene's modules be released
+    for (const m of scene.modules) ctx.bus.emit({ type: 'engine/moduleRemoved', id: m.id })
+    ctx.bus.emit({ type: 'scene/exit', id: scene.def.id })
+  }
+
+  /** Pause the top scene unless it already is; returns whether it was paused now. */
+  function pauseTop() {
+    const top = stack[stack.length - 1]
+    if (!top || top.paused) return false
+    top.paused = true
+    top.def.onPause?.(top.ctx)
+    ctx.bus.emit({ type: 'scene/pause', id: top.def.id })
+    return true
+  }
+
+  function resumeTop() {
+    const top = stack[stack.length - 1]
+    if (!top || !top.paused) return
+    top.paused = false
+    top.def.onResume?.(top.ctx)
+    ctx.bus.emit({ type: 'scene/resume', id: top.def.id })
+  }
+
+  const logError = errorReporter(ctx, 'scene/manager')
+
+  /**
+   * Disable a failed scene module, apply its fault policy and report it as
+   * `engine/moduleError`, as the engine does for its own modules.
+   * @returns The policy that was applied.
+   */
+  function fault(scene: ActiveScene, m: Module, hook: ModuleHook, error: unknown): FaultPolicy {
+    let policy: FaultPolicy = m.faultPolicy ?? ctx.config.faultPolicy ?? 'disable'
+    if (hook === 'destroy') policy = 'disable'
+    if (policy === 'restart') {
+      const attempts = restarts.get(m) ?? 0
+      if (attempts >= (ctx.config.maxRestarts ?? 3)) policy = 'disable'
+      else restarts.set(m, attempts + 1)
+    }
+
+    logError(`Error in scene module ${m.id} (${hook}), policy: ${policy}`,
+      { scene: scene.def.id, module: m.id, hook, policy, error })
+    scene.disabled.add(m)
+
+    const message = error instanceof Error ? error.message : String(error)
+    const stack = error instanceof Error ? error.stack : undefined
+    ctx.bus.emit({ type: 'engine/moduleError', id: m.id, hook, policy, message, stack, error })
+    return policy
+  }
+
+  /**
+   * Destroy the scene's modules top-down and release everything they registered.
+   * A `destroy()` that throws is reported like any other scene module fault; the
+   * remaining modules are still destroyed and every context is disposed.
+   * @param initialized - How many modules (from the bottom) were initialized and need `destroy()`.
+   */
+  function teardown(scene: ActiveScene, initialized = scene.modules.length) {
+    for (let i = scene.modules.length - 1; i >= 0; i--) {
+      const m = scene.modules[i]
+      if (i < initialized) {
+        try {
+          m.destroy?.()
+        } catch (err) {
+          fault(scene, m, 'destroy', err)
+        }
+      }
+      scene.contexts[i].scope.dispose()
+    }
+    scene.ctx.services.dispose()
+    scene.ctx.scope.dispose()
+  }
+
+  /** Destroy and re-initialize a faulted scene module in a fresh context, re-enabling it on success. */
+  async function restart(scene: ActiveScene, j: number) {
+    const m = scene.modules[j]
+    try {
+      m.destroy?.()
+    } catch (err) {
+      logError(`Error in scene module ${m.id} (destroy) during restart`, { scene: scene.def.id, module: m.id, hook: 'destroy', error: err })
+    }
+    scene.contexts[j].scope.dispose()
+    const mctx = scopeContext(scene.ctx, m.id)
+    scene.contexts[j] = mctx
+    let hook: ModuleHook = 'init'
+    try {
+      await m.init?.(mctx)
+      hook = 'start'
+      await m.start?.(mctx)
+    } catch (err) {
+      // Exited meanwhile: its teardown already released the module
+      if (!stack.includes(scene)) return
+      if (fault(scene, m, hook, err) === 'restart') await restart(scene, j)
+      return
+    }
+    if (stack.includes(scene) && scene.disabled.delete(m)) ctx.bus.emit({ type: 'engine/moduleEnabled', id: m.id })
+  }
+
+  /**
+   * Run a hook of the scene module at index `j` inside its own error boundary.
+   *
+   * @remarks
+   * A fault disables (or restarts) that module only; the scene and the manager keep running.
+   * Under the `"halt"` policy the error is rethrown, so the engine applies the
+   * manager's own policy.
+   */
+  function guard(scene: ActiveScene, j: number, hook: ModuleHook, fn: () => void) {
+    try {
+      fn()
+    } catch (err) {
+      const policy = fault(scene, scene.modules[j], hook, err)
+      if (policy === 'halt') throw err
+      if (policy === 'restart') void restart(scene, j)
+    }
+  }
+
+  const port: ScenePort = {
+    push: (id, data) => enqueue(() => enter(id, data)),
+    pop: () => enqueue(async () => {
+      if (!stack.length) return
+      await exit()
+      resumeTop()
+    }),
+    replace: (id, data) => enqueue(() => enter(id, data, true)),
+    current: () => stack[stack.length - 1]?.def.id,
+    stack: () => stack.map(s => s.def.id),
+  }
+
+  /** Synchronously tear down every scene, top first (engine shutdown). */
+  function clear() {
+    while (stack.length) teardown(stack.pop()!)
+  }
+
+  return { port, stack: stack as readonly ActiveScene[], clear, guard }
+}
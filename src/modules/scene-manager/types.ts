@@ -0,0 +1,75 @@
+import type { GameContext, Module } from '../../engine/core/Types'
+
+/**
+ * Definition of a scene: a named set of modules that live and die together.
+ */
+export interface SceneDef {
+  /** Unique scene id (e.g. `"menu"`, `"race"`, `"pause"`, `"results"`). */
+  id: string
+
+  /**
+   * Build the scene's modules.
+   * Called on every enter, so each visit starts from fresh module instances.
+   */
+  modules(): Module[]
+
+  /**
+   * Stop updating scenes below this one while it is on top (default `true`).
+   * Set to `false` for overlays that should let the game keep running (e.g. a HUD).
+   */
+  pauseBelow?: boolean
+
+  /** Skip rendering scenes below this one (default `false`; pause menus usually draw over the game). */
+  hideBelow?: boolean
+
+  /** Called after the scene's modules have been initialized and started. */
+  onEnter?(ctx: GameContext, data?: unknown): Promise<void> | void
+
+  /** Called before the scene's modules are destroyed; if it throws, the error is logged and the scene still exits. */
+  onExit?(ctx: GameContext): Promise<void> | void
+
+  /** Called when a scene with `pauseBelow` is pushed on top of this one. */
+  onPause?(ctx: GameContext): void
+
+  /** Called when the scene covering this one is popped. */
+  onResume?(ctx: GameContext): void
+}
+
+declare module '../../engine/core/Types' {
+  interface GameEventMap {
+    /**
+     * A scene was entered (its modules are initialized and started).
+     * - `id`: The scene id.
+     */
+    "scene/enter": { id: string }
+    /**
+     * A scene exited and its modules were destroyed.
+     * - `id`: The scene id.
+     */
+    "scene/exit": { id: string }
+    /**
+     * A scene was covered by a scene with `pauseBelow` and stopped updating.
+     * - `id`: The scene id.
+     */
+    "scene/pause": { id: string }
+    /**
+     * A paused scene became the top scene again and resumed updating.
+     * - `id`: The scene id.
+     */
+    "scene/resume": { id: string }
+  }
+
+  interface GameRequestMap {
+    /** Whether the scene `id` is on the stack (entered and not exited yet). */
+    "scene/isActive": { request: { id: string }; response: boolean }
+  }
+}
+
+export type SceneManagerOptions = {
+  /** All scenes that can be pushed, by definition. */
+  scenes: SceneDef[]
+  /** Scene entered when the engine starts (optional). */
+  initial?: string
+  /** Data passed to the initial scene's `onEnter`. */
+  initialData?: unknown
+}
@@ -0,0 +1,69 @@
+/**
+ * Scheduler module: sim-time timeouts, intervals, lower-rate update groups and coroutines.
+ *
+ * @module modules/scheduler
+ *
+ * @returns A module publishing the {@link SchedulerPort} under `SCHEDULER`.
+ *
+ * @remarks
+ * - Advances in `preUpdate` by the fixed step, so timers stop while `time.paused` is set,
+ *   follow `time.scale`, and fire on the same tick in replays.
+ * - Everything scheduled with an `owner` is cancelled when a module with that id is
+ *   removed (`engine/moduleRemoved`), including scene modules when their scene exits.
+ * - Coroutines are generators yielding `wait(seconds)`, `until(cond)` or nothing (next step);
+ *   see `util/coroutine`.
+ * - Engine snapshots include the clock and timers but not coroutines, which can't be
+ *   rewound; keep coroutines out of rollback-simulated gameplay.
+ *
+ * @example
+ * ```ts
+ * const scheduler = ctx.services.getOrThrow(SCHEDULER)
+ * scheduler.after(2, () => spawnWave(), 'game/waves')
+ * const ai = scheduler.group(10, 'game/ai')
+ * ai.add(dt => plan(dt))
+ *
+ * scheduler.start(function* () {
+ *   door.open()
+ *   yield wait(0.5)
+ *   yield until(() => player.inside)
+ *   door.close()
+ * }, 'game/doors')
+ * ```
+ */
+
+import type { Module } from '../../engine/core/Types'
+import { SCHEDULER } from '../../engine/core/tokens'
+import { errorReporter, type ErrorReporter } from '../../util/log'
+import { createScheduler } from './service'
+
+export default function Scheduler(): Module {
+  // Set in init(); nothing runs before that
+  let report: ErrorReporter | undefined
+  const scheduler = createScheduler((message, fields) => report?.(message, fields))
+  let offRemoved: (() => void) | undefined
+
+  return {
+    id: 'time/scheduler',
+    provides: [SCHEDULER],
+
+    init(ctx) {
+      report = errorReporter(ctx, 'time/scheduler')
+      ctx.services.set(SCHEDULER, scheduler.port)
+      offRemoved = ctx.bus.on('engine/moduleRemoved', (e) => {
+        scheduler.port.cancelOwner(e.id)
+      })
+    },
+
+    preUpdate(_ctx, dt) {
+      scheduler.step(dt)
+    },
+
+    snapshot: () => scheduler.snapshot(),
+    restore: (_ctx, state) => scheduler.restore(state as ReturnType<typeof scheduler.snapshot>),
+
+    destroy() {
+      offRemoved?.()
+      scheduler.clear()
+    },
+  }
+}
@@ -0,0 +1,234 @@
+import type { Coroutine, SchedulerPort, TimerHandle, UpdateGroup } from '../../engine/core/ports'
+import type { ErrorReporter } from '../../util/log'
+
+/** Tolerance for comparing accumulated float sim time against due times. */
+const EPSILON = 1e-9
+
+type Entry = {
+  seq: number
+  owner?: string
+  active: boolean
+  /** Sim time at which the entry is next due. */
+  due: number
+  /** Timeout callback. */
+  once?: () => void
+  /** Interval callback and period. */
+  repeat?: (dt: number) => void
+  interval?: number
+  /** Coroutine state. */
+  co?: Coroutine
+  until?: () => boolean
+  suspendedAt?: number
+}
+
+/**
+ * Create a scheduler driven by {@link step}; returns the port plus the driving functions.
+ * @param onError - Reports a callback or coroutine that threw (it is cancelled).
+ */
+export function createScheduler(onError: ErrorReporter) {
+  let now = 0
+  let seq = 0
+  let entries: Entry[] = []
+  /** Coroutine currently executing; it can't be `return()`ed from inside itself. */
+  let running: Entry | undefined
+
+  function handle(e: Entry): TimerHandle {
+    return {
+      cancel: () => cancel(e),
+      get active() { return e.active },
+    }
+  }
+
+  function add(e: Omit<Entry, 'seq' | 'active'>) {
+    const entry: Entry = { ...e, seq: seq++, active: true }
+    entries.push(entry)
+    return entry
+  }
+
+  function cancel(e: Entry) {
+    if (!e.active) return
+    e.active = false
+    if (e !== running) e.co?.return()
+  }
+
+  function fail(e: Entry, err: unknown) {
+    onError('callback threw; cancelled', { owner: e.owner, error: err })
+    cancel(e)
+  }
+
+  function assertPositive(seconds: number, what: string) {
+    if (!(seconds > 0)) throw new Error(`Scheduler: ${what} must be > 0, got ${seconds}`)
+  }
+
+  /** Resume a coroutine and park it according to what it yields. */
+  function resume(e: Entry, elapsed: number) {
+    e.until = undefined
+    let r: IteratorResult<unknown, void>
+    running = e
+    try {
+      r = e.co!.next(elapsed)
+    } catch (err) {
+      running = undefined
+      fail(e, err)
+      return
+    } finally {
+      running = undefined
+    }
+    if (!e.active) {
+      // Cancelled itself while running: finish it now
+      e.co!.return()
+      return
+    }
+    if (r.done) {
+      e.active = false
+      return
+    }
+    e.suspendedAt = now
+    const y = r.value as { wait?: number, until?: () => boolean } | undefined
+    if (y && typeof y.until === 'function') {
+      e.until = y.until
+      e.due = now
+    } else {
+      e.due = now + Math.max(0, y?.wait ?? 0)
+    }
+  }
+
+  function run(e: Entry) {
+    if (e.co) {
+      resume(e, now - e.suspendedAt!)
+      return
+    }
+    try {
+      if (e.once) {
+        e.active = false
+        e.once()
+        return
+      }
+      while (e.active && e.due <= now + EPSILON) {
+        e.due += e.interval!
+        e.repeat!(e.interval!)
+      }
+    } catch (err) {
+      fail(e, err)
+    }
+  }
+
+  function isDue(e: Entry) {
+    if (e.until) {
+      try {
+        return e.until()
+      } catch (err) {
+        fail(e, err)
+        return false
+      }
+    }
+    return e.due <= now + EPSILON
+  }
+
+  const port: SchedulerPort = {
+    after(seconds, fn, owner) {
+      return handle(add({ owner, due: now + Math.max(0, seconds), once: fn }))
+    },
+
+    every(seconds, fn, owner) {
+      assertPositive(seconds, 'interval')
+      return handle(add({ owner, due: now + seconds, repeat: fn, interval: seconds }))
+    },
+
+    group(hz, owner) {
+      assertPositive(hz, 'group rate')
+      const members: ((dt: number) => void)[] = []
+      const entry = add({
+        owner,
+        due: now + 1 / hz,
+        interval: 1 / hz,
+        repeat: (dt) => { for (const fn of [...members]) fn(dt) },
+      })
+      const group: UpdateGroup = {
+        hz,
+        cancel: () => cancel(entry),
+        get active() { return entry.active },
+        add(fn) {
+          members.push(fn)
+          let active = true
+          return {
+            cancel() {
+              active = false
+              const i = members.indexOf(fn)
+              if (i >= 0) members.splice(i, 1)
+            },
+            get active() { return active && entry.active },
+          }
+        },
+      }
+      return group
+    },
+
+    start(co, owner) {
+      const e = add({ owner, due: now, co: typeof co === 'function' ? co() : co, suspendedAt: now })
+      resume(e, 0)
+      return handle(e)
+    },
+
+    cancelOwner(owner) {
+      let n = 0
+      for (const e of entries) {
+        if (e.active && e.owner === owner) {
+          cancel(e)
+          n++
+        }
+      }
+      return n
+    },
+
+    get size() {
+      return entries.reduce((n, e) => n + (e.active ? 1 : 0), 0)
+    },
+  }
+
+  /** Advance sim time by `dt` and run everything that became due, in due order. */
+  function step(dt: number) {
+    now += dt
+    // Entries scheduled while running this step wait for the next one
+    const due = entries.filter(e => e.active && isDue(e))
+    due.sort((a, b) => a.due - b.due || a.seq - b.seq)
+    for (const e of due) {
+      if (e.active) run(e)
+    }
+    entries = entries.filter(e => e.active)
+  }
+
+  /**
+   * Capture clock and timers for rollback. Coroutines can't be rewound and are left
+   * out: they keep running from wherever they are.
+   */
+  function snapshot() {
+    return {
+      now,
+      timers: entries.filter(e => !e.co).map(e => ({ e, active: e.active, due: e.due })),
+    }
+  }
+
+  /** Return to a {@link snapshot}; timers scheduled since then are dropped (re-simulation recreates them). */
+  function restore(s: ReturnType<typeof snapshot>) {
+    now = s.now
+    const kept = new Set(s.timers.map(t => t.e))
+    for (const e of entries) {
+      if (!e.co && !kept.has(e)) e.active = false
+    }
+    for (const t of s.timers) {
+      t.e.active = t.active
+      t.e.due = t.due
+    }
+    entries = [...s.timers.map(t => t.e), ...entries.filter(e => e.co && e.active)]
+    entries.sort((a, b) => a.seq - b.seq)
+  }
+
+  /** Cancel everything (engine shutdown). */
+  function clear() {
+    for (const e of entries) cancel(e)
+    entries = []
+  }
+
+  return { port, step, clear, snapshot, restore }
+}
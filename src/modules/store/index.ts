@@ -0,0 +1,74 @@
+/**
+ * Store module: an observable key/value store for HUD and UI bindings.
+ *
+ * @module modules/store
+ *
+ * @returns A module publishing the {@link StorePort} under `STORE`.
+ *
+ * @remarks
+ * - Keys are typed and defined once with `defineState<T>(name, initial)` (`engine/core/State`),
+ *   next to the code that shares them; `engine/core/state` holds the engine-wide ones
+ *   (e.g. `LOAD_PROGRESS`).
+ * - Gameplay publishes with `set` / `update` (group related changes in `batch`);
+ *   HUD and UI modules `subscribe`, `derive` combined values, or just `get` in `render`.
+ *   Neither side imports the other.
+ * - The "State" debug panel lists every known key with its current value.
+ *
+ * @example
+ * ```ts
+ * // shared: export const ITEM_SLOT = defineState<string | null>('ItemSlot', null)
+ * const store = ctx.services.getOrThrow(STORE)
+ * store.set(ITEM_SLOT, 'rocket')
+ *
+ * const label = store.derive([ITEM_SLOT, LAP], (item, lap) => `Lap ${lap} · ${item ?? '—'}`)
+ * ctx.scope.defer(label.subscribe(text => hud.setText(text)))
+ * ```
+ */
+
+import type { Module, DebugPanel } from '../../engine/core/Types'
+import { STORE } from '../../engine/core/tokens'
+import { errorReporter, type ErrorReporter } from '../../util/log'
+import { createStore } from './service'
+
+/** Longest rendering of a value in the panel. */
+const MAX_VALUE_CHARS = 60
+
+export default function Store(): Module {
+  // Set in init(); the store isn't published before that
+  let report: ErrorReporter | undefined
+  const store = createStore((message, fields) => report?.(message, fields))
+
+  function show(v: unknown) {
+    const text = typeof v === 'string' ? v : JSON.stringify(v) ?? String(v)
+    return text.length > MAX_VALUE_CHARS ? `${text.slice(0, MAX_VALUE_CHARS - 1)}…` : text
+  }
+
+  const panel: DebugPanel = {
+    id: -1006 as any,
+    title: 'State',
+    order: 540,
+    render() {
+      const entries = store.entries()
+      if (!entries.length) return ['No state published']
+      return entries.map(([name, value]) => `${name}: ${show(value)}`)
+    },
+  }
+
+  return {
+    id: 'store',
+    provides: [STORE],
+
+    init(ctx) {
+      report = errorReporter(ctx, 'store')
+      ctx.services.set(STORE, store)
+    },
+
+    start(ctx) {
+      ctx.bus.emit({ type: 'debug/panel/register', panel })
+    },
+
+    destroy() {
+      store.reset()
+    },
+  }
+}
@@ -0,0 +1,150 @@
+import type { StateKey } from '../../engine/core/State'
+import type { ReadableAtom, StateListener, StateSource, StorePort } from '../../engine/core/ports'
+import type { ErrorReporter } from '../../util/log'
+
+/** Whether a dependency is an atom rather than a key. */
+const isAtom = (s: StateSource<unknown>): s is ReadableAtom<unknown> => 'subscribe' in s
+
+/**
+ * Create the {@link StorePort}.
+ *
+ * @remarks
+ * A listener that throws is reported through `onError` and skipped; the others still run.
+ */
+export function createStore(onError: ErrorReporter): StorePort {
+  const values = new Map<symbol, unknown>()
+  const listeners = new Map<symbol, Set<StateListener<any>>>()
+  /** Keys seen so far, for `entries()` and `reset()`. */
+  const known = new Map<symbol, StateKey<unknown>>()
+  /** Changed keys awaiting notification → value before the first change. */
+  const pending = new Map<StateKey<unknown>, unknown>()
+  let depth = 0
+  let flushing = false
+
+  function get<T>(key: StateKey<T>): T {
+    return (values.has(key.key) ? values.get(key.key) : key.initial) as T
+  }
+
+  function set<T>(key: StateKey<T>, value: T) {
+    const prev = get(key)
+    if (Object.is(prev, value)) return
+    known.set(key.key, key)
+    values.set(key.key, value)
+    if (!pending.has(key)) pending.set(key, prev)
+    if (depth === 0) flush()
+  }
+
+  /** Notify listeners of every pending key, including keys changed by those listeners. */
+  function flush() {
+    if (flushing) return
+    flushing = true
+    try {
+      while (pending.size) {
+        const [key, prev] = pending.entries().next().value!
+        pending.delete(key)
+        const value = get(key)
+        if (Object.is(value, prev)) continue
+        for (const fn of [...listeners.get(key.key) ?? []]) {
+          try {
+            fn(value, prev)
+          } catch (err) {
+            onError('listener threw', { key: key.name, error: err })
+          }
+        }
+      }
+    } finally {
+      flushing = false
+    }
+  }
+
+  function subscribe<T>(key: StateKey<T>, fn: StateListener<T>, opts?: { immediate?: boolean }) {
+    known.set(key.key, key)
+    let set = listeners.get(key.key)
+    if (!set) {
+      set = new Set()
+      listeners.set(key.key, set)
+    }
+    set.add(fn)
+    if (opts?.immediate) {
+      const value = get(key)
+      fn(value, value)
+    }
+    return () => {
+      set!.delete(fn)
+      if (set!.size === 0 && listeners.get(key.key) === set) listeners.delete(key.key)
+    }
+  }
+
+  function read(s: StateSource<unknown>) {
+    return isAtom(s) ? s.get() : get(s)
+  }
+
+  function watch(s: StateSource<unknown>, fn: () => void) {
+    return isAtom(s) ? s.subscribe(fn) : subscribe(s, fn)
+  }
+
+  const port: StorePort = {
+    get,
+    set,
+    update: (key, fn) => set(key, fn(get(key))),
+    subscribe,
+
+    atom: (key) => ({
+      get: () => get(key),
+      set: (value) => set(key, value),
+      update: (fn) => set(key, fn(get(key))),
+      subscribe: (fn) => subscribe(key, fn),
+    }),
+
+    derive(deps, compute) {
+      type T = ReturnType<typeof compute>
+      const run = () => (compute as (...v: unknown[]) => T)(...deps.map(read))
+      const subs = new Set<StateListener<T>>()
+      // Last result, kept while subscribed to detect changes
+      let value: T
+      let offs: (() => void)[] = []
+
+      const recompute = () => {
+        const prev = value
+        value = run()
+        if (Object.is(prev, value)) return
+        for (const fn of [...subs]) fn(value, prev)
+      }
+
+      return {
+        get: run,
+        subscribe(fn) {
+          if (subs.size === 0) {
+            value = run()
+            offs = deps.map(d => watch(d, recompute))
+          }
+          subs.add(fn)
+          return () => {
+            if (!subs.delete(fn) || subs.size > 0) return
+            offs.forEach(off => off())
+            offs = []
+          }
+        },
+      }
+    },
+
+    batch(fn) {
+      depth++
+      try {
+        return fn()
+      } finally {
+        if (--depth === 0) flush()
+      }
+    },
+
+    reset(key) {
+      const keys = key ? [key] : [...known.values()]
+      port.batch(() => {
+        for (const k of keys) set(k, k.initial)
+      })
+    },
+
+    entries: () => [...known.values()].map(k => [k.name, get(k)]),
+  }
+  return port
+}
@@ -0,0 +1,66 @@
+/**
+ * Tween module: animates numeric properties over sim time with easing, sequences and groups.
+ *
+ * @module modules/tween
+ *
+ * @returns A module publishing the {@link TweenPort} under `TWEENS`.
+ *
+ * @remarks
+ * - Advances in `preUpdate`, so kinematic targets set by tweens are in place before
+ *   physics steps in `postUpdate`, and tweens respect `time.paused` / `time.scale`.
+ * - Specs are plain data: `{ from, to, duration, ease, onUpdate }` leaves combined with
+ *   `{ sequence: [...] }` / `{ parallel: [...] }`, each with optional `delay`, `repeat`, `yoyo`,
+ *   `onComplete` and `name` (emits `tween/complete`).
+ * - Easing curves live in `util/easing`; `util/tween` has sinks for `Camera2DWritePort.set`
+ *   and `PhysicsWritePort.setKinematicTarget`.
+ * - Tweens started with an `owner` are cancelled when that module is removed.
+ * - Playback positions are part of engine snapshots; values are re-applied on the next step.
+ *
+ * @example
+ * ```ts
+ * const tweens = ctx.services.getOrThrow(TWEENS)
+ * // Platform bobbing up and down forever
+ * tweens.play({
+ *   from: { y: 4 }, to: { y: 6 }, duration: 1.5, ease: Easing.sineInOut,
+ *   yoyo: true, repeat: Infinity,
+ *   onUpdate: kinematicSink(physics, platform),
+ * }, 'game/level')
+ * ```
+ */
+
+import type { Module } from '../../engine/core/Types'
+import { TWEENS } from '../../engine/core/tokens'
+import { errorReporter } from '../../util/log'
+import { createTweens } from './service'
+import './types'
+
+export default function Tweens(): Module {
+  let tweens: ReturnType<typeof createTweens> | undefined
+  let offRemoved: (() => void) | undefined
+
+  return {
+    id: 'time/tweens',
+    provides: [TWEENS],
+
+    init(ctx) {
+      tweens = createTweens((name) => ctx.bus.emit({ type: 'tween/complete', name }), errorReporter(ctx, 'time/tweens'))
+      ctx.services.set(TWEENS, tweens.port)
+      offRemoved = ctx.bus.on('engine/moduleRemoved', (e) => {
+        tweens!.port.cancelOwner(e.id)
+      })
+    },
+
+    preUpdate(_ctx, dt) {
+      tweens!.step(dt)
+    },
+
+    snapshot: () => tweens!.snapshot(),
+    restore: (_ctx, state) => tweens!.restore(state as ReturnType<NonNullable<typeof tweens>['snapshot']>),
+
+    destroy() {
+      offRemoved?.()
+      tweens?.clear()
+      tweens = undefined
+    },
+  }
+}
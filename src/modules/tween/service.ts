@@ -0,0 +1,232 @@
+import type { Tween, TweenNode, TweenPort, TweenSpec, TweenTiming, TweenValues } from '../../engine/core/ports'
+import type { ErrorReporter } from '../../util/log'
+
+/** A compiled tween tree node, sampled by local time rather than stepped. */
+interface Node {
+  /** Length in seconds, including delays and repeats. */
+  readonly total: number
+  /** Whether it has been sampled since it was last rewound to before its start. */
+  started: boolean
+  seek(t: number): void
+}
+
+type Playing = { node: Node; elapsed: number; owner?: string; active: boolean }
+
+const linear = (t: number) => t
+
+function leaf(spec: TweenSpec): Node {
+  const keys = Object.keys(spec.to)
+  for (const k of new Set([...keys, ...Object.keys(spec.from)])) {
+    if (typeof spec.from[k] !== 'number' || typeof spec.to[k] !== 'number') {
+      throw new Error(`Tween: "${k}" must be a number in both "from" and "to"`)
+    }
+  }
+  const ease = spec.ease ?? linear
+  const d = Math.max(0, spec.duration)
+  const values: TweenValues = { ...spec.from }
+  let last = NaN
+
+  const node: Node = {
+    total: d,
+    started: false,
+    seek(t) {
+      node.started = true
+      if (t === last) return
+      last = t
+      const p = d > 0 ? Math.min(1, Math.max(0, t / d)) : 1
+      const e = ease(p)
+      for (const k of keys) values[k] = spec.from[k] + (spec.to[k] - spec.from[k]) * e
+      spec.onUpdate(values, p)
+    },
+  }
+  return node
+}
+
+function group(children: Node[], sequential: boolean): Node {
+  const offsets: number[] = []
+  let total = 0
+  for (const c of children) {
+    offsets.push(sequential ? total : 0)
+    total = sequential ? total + c.total : Math.max(total, c.total)
+  }
+  const forward = children.map((_, i) => i)
+  const backward = [...forward].reverse()
+  let last = 0
+
+  const node: Node = {
+    total,
+    started: false,
+    seek(t) {
+      node.started = true
+      // Walking back in time, later children must be restored first so earlier ones win
+      const order = t < last ? backward : forward
+      last = t
+      for (const i of order) {
+        const c = children[i]
+        const local = t - offsets[i]
+        if (local < 0 && !c.started) continue
+        c.seek(Math.min(Math.max(0, local), c.total))
+        if (local < 0) c.started = false
+      }
+    },
+  }
+  return node
+}
+
+function timed(inner: Node, timing: TweenTiming, complete: (t: TweenTiming) => void): Node {
+  const delay = Math.max(0, timing.delay ?? 0)
+  const repeat = Math.max(0, timing.repeat ?? 0)
+  const yoyo = timing.yoyo ?? false
+  const d = inner.total
+  if (repeat === Infinity && !(d > 0)) {
+    throw new Error('Tween: an endless repeat needs a non-zero duration')
+  }
+  const length = d === 0 ? 0 : d * (repeat + 1)
+  const map = (cycle: number, within: number) => (yoyo && cycle % 2 === 1 ? d - within : within)
+  let cycle = 0
+  let done = false
+
+  const node: Node = {
+    total: delay + length,
+    started: false,
+    seek(t) {
+      node.started = true
+      const local = t - delay
+      if (local < 0) {
+        if (inner.started) {
+          inner.seek(0)
+          inner.started = false
+        }
+        cycle = 0
+        done = false
+        return
+      }
+      let c = d > 0 ? Math.floor(local / d) : 0
+      let within = d > 0 ? local - c * d : 0
+      if (c > repeat) {
+        c = repeat
+        within = d
+      }
+      if (c !== cycle) {
+        // Take the cycle we're leaving to its end state first
+        inner.seek(map(cycle, c > cycle ? d : 0))
+        cycle = c
+      }
+      inner.seek(map(c, within))
+
+      const finished = local >= length
+      if (finished && !done) {
+        done = true
+        complete(timing)
+      } else if (!finished) {
+        done = false
+      }
+    },
+  }
+  return node
+}
+
+/**
+ * Create the tween player; returns the port plus the driving functions.
+ *
+ * @param onNamedComplete - Called with `name` whenever a named tween or group completes.
+ * @param onError - Reports a tween whose callbacks threw (it is cancelled).
+ */
+export function createTweens(onNamedComplete: (name: string) => void, onError: ErrorReporter) {
+  let playing: Playing[] = []
+
+  function complete(t: TweenTiming) {
+    t.onComplete?.()
+    if (t.name) onNamedComplete(t.name)
+  }
+
+  function build(n: TweenNode): Node {
+    const inner = 'sequence' in n && n.sequence ? group(n.sequence.map(build), true)
+      : 'parallel' in n && n.parallel ? group(n.parallel.map(build), false)
+      : leaf(n as TweenSpec)
+    return n.delay || n.repeat || n.yoyo || n.onComplete || n.name ? timed(inner, n, complete) : inner
+  }
+
+  function sample(p: Playing) {
+    try {
+      p.node.seek(Math.min(p.elapsed, p.node.total))
+    } catch (err) {
+      onError('tween threw; cancelled', { owner: p.owner, error: err })
+      p.active = false
+      return
+    }
+    if (p.elapsed >= p.node.total) p.active = false
+  }
+
+  const port: TweenPort = {
+    play(spec, owner) {
+      const p: Playing = { node: build(spec), elapsed: 0, owner, active: true }
+      playing.push(p)
+      // Apply the start values right away so nothing pops for a step
+      sample(p)
+      const tween: Tween = {
+        cancel: () => { p.active = false },
+        get active() { return p.active },
+        get elapsed() { return p.elapsed },
+        duration: p.node.total,
+        seek(elapsed) {
+          if (!p.active) return
+          p.elapsed = Math.max(0, elapsed)
+          sample(p)
+        },
+      }
+      return tween
+    },
+
+    cancelOwner(owner) {
+      let n = 0
+      for (const p of playing) {
+        if (p.active && p.owner === owner) {
+          p.active = false
+          n++
+        }
+      }
+      return n
+    },
+
+    get size() {
+      return playing.reduce((n, p) => n + (p.active ? 1 : 0), 0)
+    },
+  }
+
+  /** Advance every playing tween by `dt` seconds. */
+  function step(dt: number) {
+    for (const p of [...playing]) {
+      if (!p.active) continue
+      p.elapsed += dt
+      sample(p)
+    }
+    playing = playing.filter(p => p.active)
+  }
+
+  /** Capture playback positions for rollback. */
+  function snapshot() {
+    return playing.map(p => ({ p, elapsed: p.elapsed, active: p.active }))
+  }
+
+  /** Return to a {@link snapshot}; tweens started since then are dropped (re-simulation restarts them). */
+  function restore(s: ReturnType<typeof snapshot>) {
+    const kept = new Set(s.map(t => t.p))
+    for (const p of playing) {
+      if (!kept.has(p)) p.active = false
+    }
+    for (const t of s) {
+      t.p.elapsed = t.elapsed
+      t.p.active = t.active
+    }
+    playing = s.map(t => t.p)
+  }
+
+  /** Stop everything (engine shutdown). */
+  function clear() {
+    for (const p of playing) p.active = false
+    playing = []
+  }
+
+  return { port, step, clear, snapshot, restore }
+}
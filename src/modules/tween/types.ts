@@ -0,0 +1,11 @@
+declare module '../../engine/core/Types' {
+  interface GameEventMap {
+    /**
+     * A tween or group with a `name` completed.
+     * - `name`: The `name` given in its spec.
+     */
+    "tween/complete": { name: string }
+  }
+}
+
+export {}
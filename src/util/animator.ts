@@ -1,5 +1,16 @@
 import type { SpriteSheet, Clip, Frame } from './spritesheet'
 
+/**
+ * Serializable playback position of an {@link Animator}, for save games and snapshots.
+ */
+export type AnimatorState = {
+  clip: string
+  time: number
+  index: number
+  dir: number
+  finished: boolean
+}
+
 /**
  * Simple, render-agnostic sprite animator that manages frame timing and clip switching.
  *
@@ -120,6 +131,30 @@ export class Animator {
     }
   }
 
+  /**
+   * Captures the current playback position.
+   *
+   * @returns A plain object that can be stored and later passed to {@link Animator.setState}.
+   */
+  getState(): AnimatorState {
+    return { clip: this._clip.name, time: this._time, index: this._index, dir: this._dir, finished: this._finished }
+  }
+
+  /**
+   * Restores a playback position captured with {@link Animator.getState}.
+   *
+   * @param state - The state to restore; its clip must exist on the sheet.
+   *
+   * @throws {Error} If `state.clip` does not exist on the sheet.
+   */
+  setState(state: AnimatorState) {
+    this.play(state.clip, false)
+    this._time = state.time
+    this._index = clamp(state.index, 0, this._clip.frames.length - 1)
+    this._dir = state.dir
+    this._finished = state.finished
+  }
+
   /**
    * Advances the animation by a given number of seconds.
    *
@@ -0,0 +1,11 @@
+import type { YieldInstruction } from "../engine/core/ports";
+
+/** Suspend a coroutine for `seconds` of sim time: `yield wait(0.5)`. */
+export function wait(seconds: number): YieldInstruction {
+  return { wait: seconds };
+}
+
+/** Suspend a coroutine until `cond()` returns true (checked once per fixed step): `yield until(() => door.open)`. */
+export function until(cond: () => boolean): YieldInstruction {
+  return { until: cond };
+}
@@ -0,0 +1,74 @@
+/** Maps linear progress in [0..1] to eased progress (0 → 0, 1 → 1; may overshoot in between). */
+export type EasingFn = (t: number) => number;
+
+const PI = Math.PI;
+const C1 = 1.70158;
+const C2 = C1 * 1.525;
+const C3 = C1 + 1;
+const C4 = (2 * PI) / 3;
+const C5 = (2 * PI) / 4.5;
+
+function bounceOut(t: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+}
+
+/**
+ * Standard easing curves (see easings.net for plots).
+ *
+ * @example
+ * ```ts
+ * tweens.play({ from: { zoom: 1 }, to: { zoom: 2 }, duration: 0.5, ease: Easing.cubicOut, onUpdate: cameraSink(camera) })
+ * ```
+ */
+export const Easing = {
+  linear: (t) => t,
+
+  quadIn: (t) => t * t,
+  quadOut: (t) => 1 - (1 - t) * (1 - t),
+  quadInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+
+  cubicIn: (t) => t * t * t,
+  cubicOut: (t) => 1 - Math.pow(1 - t, 3),
+  cubicInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+
+  quartIn: (t) => t * t * t * t,
+  quartOut: (t) => 1 - Math.pow(1 - t, 4),
+  quartInOut: (t) => (t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2),
+
+  sineIn: (t) => 1 - Math.cos((t * PI) / 2),
+  sineOut: (t) => Math.sin((t * PI) / 2),
+  sineInOut: (t) => -(Math.cos(PI * t) - 1) / 2,
+
+  expoIn: (t) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  expoOut: (t) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  expoInOut: (t) =>
+    t === 0 ? 0 : t === 1 ? 1 : t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2,
+
+  backIn: (t) => C3 * t * t * t - C1 * t * t,
+  backOut: (t) => 1 + C3 * Math.pow(t - 1, 3) + C1 * Math.pow(t - 1, 2),
+  backInOut: (t) =>
+    t < 0.5
+      ? (Math.pow(2 * t, 2) * ((C2 + 1) * 2 * t - C2)) / 2
+      : (Math.pow(2 * t - 2, 2) * ((C2 + 1) * (t * 2 - 2) + C2) + 2) / 2,
+
+  elasticIn: (t) => (t === 0 || t === 1 ? t : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * C4)),
+  elasticOut: (t) => (t === 0 || t === 1 ? t : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * C4) + 1),
+  elasticInOut: (t) =>
+    t === 0 || t === 1
+      ? t
+      : t < 0.5
+        ? -(Math.pow(2, 20 * t - 10) * Math.sin((20 * t - 11.125) * C5)) / 2
+        : (Math.pow(2, -20 * t + 10) * Math.sin((20 * t - 11.125) * C5)) / 2 + 1,
+
+  bounceIn: (t) => 1 - bounceOut(1 - t),
+  bounceOut,
+  bounceInOut: (t) => (t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2),
+} satisfies Record<string, EasingFn>;
+
+/** Name of a built-in curve in {@link Easing}. */
+export type EasingName = keyof typeof Easing;
@@ -0,0 +1,20 @@
+import { LOGGER } from "../engine/core/tokens";
+import type { LogFields } from "../engine/core/ports";
+import type { GameContext } from "../engine/core/Types";
+
+/** Reports a caught error; keep `message` constant and put variable data in `fields`. */
+export type ErrorReporter = (message: string, fields: { error: unknown } & LogFields) => void;
+
+/**
+ * Report errors on `channel` of the {@link LOGGER}, or on the console when no logger
+ * is registered (the same fallback the engine uses for module faults).
+ * @remarks
+ * The logger is looked up on every call, so it may be added or replaced later.
+ */
+export function errorReporter(ctx: GameContext, channel: string): ErrorReporter {
+  return (message, fields) => {
+    const log = ctx.services.get(LOGGER);
+    if (log) log.channel(channel).error(message, fields);
+    else console.error(`[${channel}] ${message}`, fields.error);
+  };
+}
@@ -0,0 +1,12 @@
+import { PROFILER } from "../engine/core/tokens";
+import type { GameContext } from "../engine/core/Types";
+
+/**
+ * Run `fn` and time it as `series` on the {@link PROFILER}, or just run it when no
+ * profiler is registered.
+ * @returns What `fn` returns.
+ */
+export function profile<T>(ctx: GameContext, series: string, fn: () => T): T {
+  const prof = ctx.services.get(PROFILER);
+  return prof ? prof.measure(series, fn) : fn();
+}
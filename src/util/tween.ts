@@ -0,0 +1,37 @@
+import type { BodyId, Transform } from "../engine/core/primitives";
+import type { Camera2DPort, PhysicsWritePort } from "../engine/core/ports";
+
+/**
+ * Tween sink for the camera: animate any of `x`, `y` (position, meters), `zoom` and `rotation`.
+ *
+ * @example
+ * ```ts
+ * tweens.play({ from: { zoom: 1 }, to: { zoom: 2 }, duration: 1, onUpdate: cameraSink(camera) })
+ * ```
+ */
+export function cameraSink(camera: Camera2DPort) {
+  return (v: { x?: number; y?: number; zoom?: number; rotation?: number }) => {
+    const { position } = camera.get();
+    camera.set({
+      ...(v.x != null || v.y != null ? { position: { x: v.x ?? position.x, y: v.y ?? position.y } } : {}),
+      ...(v.zoom != null ? { zoom: v.zoom } : {}),
+      ...(v.rotation != null ? { rotation: v.rotation } : {}),
+    });
+  };
+}
+
+/**
+ * Tween sink for a kinematic body: animate any of `x`, `y` (meters) and `angle` via `setKinematicTarget`,
+ * so the physics step derives the body's velocity and it carries whatever stands on it.
+ *
+ * @example
+ * ```ts
+ * tweens.play({ from: { x: 10 }, to: { x: 14 }, duration: 2, yoyo: true, repeat: Infinity,
+ *   onUpdate: kinematicSink(physics, platform) })
+ * ```
+ */
+export function kinematicSink(physics: PhysicsWritePort, body: BodyId) {
+  return (v: Partial<Transform>) => {
+    physics.setKinematicTarget(body, v);
+  };
+}